@@ -0,0 +1,151 @@
+#!/usr/bin/env bun
+import { X509Certificate, randomUUID, sign } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { type ProductKey, products } from "./src/pricing";
+import { APP_BUNDLE_ID } from "./src/site";
+
+const usage = `
+App Store Server Notifications, locally
+
+Usage:
+  bun run appstore-notifications.ts certs [--dir <dir>]
+  bun run appstore-notifications.ts send <type> [--subtype <subtype>] [--product monthly|yearly|lifetime]
+                                          [--transaction <id>] [--dir <dir>] [--url <url>]
+
+Commands:
+  certs  Make a test root CA, an intermediate CA and a leaf certificate with
+         Apple's marker extensions, in out/appstore-certs by default (needs
+         openssl). Start the server with APPSTORE_ROOT_CERTS=<dir>/root.pem to
+         trust them instead of Apple's root.
+  send   Sign a notification of <type>, such as SUBSCRIBED, DID_RENEW or REFUND,
+         with the test leaf certificate, and post it to the server
+         (http://localhost:8787 by default). --transaction sets the original
+         transaction ID, so that several notifications make up one purchase.
+`;
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const dir = option("dir") ?? path.join(import.meta.dir, "out/appstore-certs");
+
+// The marker extensions `verifyAppStoreJws()` requires, as in Apple's certificates.
+const EXTENSIONS = `
+[root]
+basicConstraints = critical, CA:true
+keyUsage = critical, keyCertSign, cRLSign
+[intermediate]
+basicConstraints = critical, CA:true, pathlen:0
+keyUsage = critical, keyCertSign, cRLSign
+1.2.840.113635.100.6.2.1 = ASN1:NULL
+[leaf]
+basicConstraints = critical, CA:false
+keyUsage = critical, digitalSignature
+1.2.840.113635.100.6.11.1 = ASN1:NULL
+`;
+
+function openssl(...args: string[]) {
+  const result = Bun.spawnSync(["openssl", ...args], { cwd: dir, stderr: "pipe" });
+  if (result.exitCode !== 0) fail(`openssl ${args[0]} failed:\n${result.stderr.toString()}`);
+}
+
+async function makeCertificates() {
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "extensions.cnf"), EXTENSIONS);
+
+  for (const [name, issuer] of [["root"], ["intermediate", "root"], ["leaf", "intermediate"]] as const) {
+    openssl("ecparam", "-name", "prime256v1", "-genkey", "-noout", "-out", `${name}.key`);
+    const subject = `/CN=VVTerm test ${name}/O=VVTerm`;
+    if (!issuer) {
+      openssl("req", "-new", "-x509", "-key", "root.key", "-subj", subject, "-days", "3650", "-out", "root.pem",
+        "-extensions", "root", "-config", "extensions.cnf");
+      continue;
+    }
+    openssl("req", "-new", "-key", `${name}.key`, "-subj", subject, "-out", `${name}.csr`, "-config", "extensions.cnf");
+    openssl("x509", "-req", "-in", `${name}.csr`, "-CA", `${issuer}.pem`, "-CAkey", `${issuer}.key`, "-CAcreateserial",
+      "-days", "3650", "-out", `${name}.pem`, "-extfile", "extensions.cnf", "-extensions", name);
+  }
+  console.log(`Wrote a test certificate chain to ${dir}; trust it with APPSTORE_ROOT_CERTS=${path.join(dir, "root.pem")}`);
+}
+
+/** Signs `payload` as the App Store does: ES256, with the certificate chain in the header. */
+function signJws(payload: object): string {
+  const file = (name: string) => {
+    const location = path.join(dir, name);
+    if (!existsSync(location)) fail(`${location} doesn't exist; run \`bun run appstore-notifications.ts certs\` first`);
+    return readFileSync(location);
+  };
+  const x5c = ["leaf", "intermediate", "root"].map(name => new X509Certificate(file(`${name}.pem`)).raw.toString("base64"));
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const input = `${encode({ alg: "ES256", x5c })}.${encode(payload)}`;
+  const signature = sign("sha256", Buffer.from(input), { key: file("leaf.key"), dsaEncoding: "ieee-p1363" });
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+async function sendNotification(type: string | undefined) {
+  if (!type) fail(usage);
+  const productKey = (option("product") ?? "monthly") as ProductKey;
+  const product = products[productKey] ?? fail(`Unknown product ${productKey}`);
+  const originalTransactionId = option("transaction") ?? String(Date.now());
+  const now = Date.now();
+  const subscription = product.type === "RecurringSubscription";
+
+  const transaction = {
+    transactionId: String(now),
+    originalTransactionId,
+    bundleId: APP_BUNDLE_ID,
+    productId: product.productId,
+    purchaseDate: now,
+    originalPurchaseDate: now,
+    ...(subscription && { expiresDate: now + (product.period === "P1Y" ? 365 : 30) * 24 * 60 * 60 * 1000 }),
+    ...(type === "REFUND" && { revocationDate: now, revocationReason: 0 }),
+    type: subscription ? "Auto-Renewable Subscription" : "Non-Consumable",
+    inAppOwnershipType: "PURCHASED",
+    environment: "LocalTesting",
+    signedDate: now,
+  };
+  const renewal = {
+    originalTransactionId,
+    autoRenewProductId: product.productId,
+    productId: product.productId,
+    autoRenewStatus: type === "DID_CHANGE_RENEWAL_STATUS" ? 0 : 1,
+    environment: "LocalTesting",
+    signedDate: now,
+  };
+  const signedPayload = signJws({
+    notificationType: type,
+    subtype: option("subtype"),
+    notificationUUID: randomUUID(),
+    version: "2.0",
+    signedDate: now,
+    data: {
+      bundleId: APP_BUNDLE_ID,
+      environment: "LocalTesting",
+      signedTransactionInfo: signJws(transaction),
+      ...(subscription && { signedRenewalInfo: signJws(renewal) }),
+    },
+  });
+
+  const url = new URL("/api/appstore/notifications", option("url") ?? "http://localhost:8787");
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ signedPayload }),
+  });
+  console.log(`${type} for original transaction ${originalTransactionId}: ${response.status} ${response.statusText}`);
+  if (!response.ok) process.exit(1);
+}
+
+const [command, argument] = process.argv.slice(2);
+if (command === "certs") await makeCertificates();
+else if (command === "send") await sendNotification(argument);
+else fail(usage);
@@ -1,8 +1,17 @@
 #!/usr/bin/env bun
 import plugin from "bun-plugin-tailwind";
 import { existsSync } from "fs";
-import { rm } from "fs/promises";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
 import path from "path";
+import { docsHead, docsPaths, docsView, loadDocs, renderDocsDocument } from "./src/docs/content";
+import { renderDocument } from "./src/document";
+import { type Language, defaultLanguage, languages, loadAllCatalogs, localizedPath } from "./src/i18n/i18n";
+import { redirectsFile } from "./src/redirects";
+import { docsTemplate, documents, prerenderedDocuments } from "./src/routes";
+import { sitemapXml } from "./src/sitemap";
+import { CSP_HASHES_FILE, inlineScriptHashes } from "./src/security";
+import { precompress } from "./src/static";
 
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
   console.log(`
@@ -105,11 +114,35 @@ const formatFileSize = (bytes: number): string => {
   return `${size.toFixed(2)} ${units[unitIndex]}`;
 };
 
+const ROOT_PLACEHOLDER = '<div id="root"></div>';
+
+/**
+ * Injects prerendered markup into a built page. Resource hints that React
+ * emits ahead of the tree (image preloads) are hoisted into `<head>`.
+ */
+const injectMarkup = (html: string, markup: string): string => {
+  if (!html.includes(ROOT_PLACEHOLDER)) {
+    throw new Error(`Page has no ${ROOT_PLACEHOLDER} to prerender into`);
+  }
+
+  const hints = markup.match(/^(?:<link [^>]*\/>)*/)?.[0] ?? "";
+  const tree = markup.slice(hints.length);
+
+  return html
+    .replace("</head>", () => `${hints}</head>`)
+    .replace(ROOT_PLACEHOLDER, () => `<div id="root">${tree}</div>`);
+};
+
 console.log("\nStarting build process...\n");
 
 const cliConfig = parseArgs();
 const outdir = cliConfig.outdir || path.join(process.cwd(), "dist");
 
+// Shared by the browser build and the prerender build so that both resolve
+// imported assets (logo, badge, screenshots) to the same URLs.
+const publicPath = cliConfig.publicPath ?? "/";
+const assetNaming = "[dir]/[name]-[hash].[ext]";
+
 if (existsSync(outdir)) {
   console.log(`Cleaning previous build at ${outdir}`);
   await rm(outdir, { recursive: true, force: true });
@@ -117,23 +150,26 @@ if (existsSync(outdir)) {
 
 const start = performance.now();
 
-const entrypoints = [...new Bun.Glob("**/*.html").scanSync("src")]
-  .map(a => path.resolve("src", a))
-  .filter(dir => !dir.includes("node_modules"));
-console.log(`Found ${entrypoints.length} HTML ${entrypoints.length === 1 ? "file" : "files"} to process\n`);
+const entrypoints = documents.map(page => path.resolve("src", page.entry));
+console.log(`Found ${entrypoints.length} ${entrypoints.length === 1 ? "page" : "pages"} to process\n`);
 
 const result = await Bun.build({
   entrypoints,
+  // Pages are written to the same paths under `dist/` as under `src/`. Bun
+  // infers the root from the entrypoints otherwise, which doesn't always
+  // come out as `src/` (it didn't once two pages were named `history`).
+  root: path.resolve("src"),
   outdir,
   plugins: [plugin],
   minify: true,
   target: "browser",
   sourcemap: "linked",
   splitting: true,
+  publicPath,
   naming: {
     chunk: "[dir]/[name]-[hash].[ext]",
     entry: "[dir]/[name].[ext]",
-    asset: "[dir]/[name]-[hash].[ext]",
+    asset: assetNaming,
   },
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
@@ -141,8 +177,6 @@ const result = await Bun.build({
   ...cliConfig,
 });
 
-const end = performance.now();
-
 const outputTable = result.outputs.map(output => ({
   File: path.relative(process.cwd(), output.path),
   Type: output.kind,
@@ -150,15 +184,93 @@ const outputTable = result.outputs.map(output => ({
 }));
 
 console.table(outputTable);
-const buildTime = (end - start).toFixed(2);
 
-// Copy sitemap.xml to dist
-const sitemap = Bun.file("./src/sitemap.xml");
-if (await sitemap.exists()) {
-  await Bun.write(path.join(outdir, "sitemap.xml"), sitemap);
-  console.log(`Copied sitemap.xml to ${path.join(outdir, "sitemap.xml")}`);
+// The documentation's content directory (`src/docs/content.ts`), for its
+// pages and the sitemap.
+const docs = loadDocs();
+
+// Render every page's React tree into its HTML so crawlers and visitors
+// without JavaScript get the full content; the entry scripts hydrate it.
+const prerenderDir = await mkdtemp(path.join(tmpdir(), "vvterm-prerender-"));
+
+try {
+  const prerenderBuild = await Bun.build({
+    entrypoints: [path.resolve("src", "prerender.tsx")],
+    root: path.resolve("src"),
+    outdir: prerenderDir,
+    target: "bun",
+    publicPath,
+    naming: {
+      asset: assetNaming,
+    },
+    define: {
+      "process.env.NODE_ENV": JSON.stringify("production"),
+    },
+  });
+
+  if (!prerenderBuild.success) {
+    console.error(prerenderBuild.logs);
+    process.exit(1);
+  }
+
+  const prerenderEntry = prerenderBuild.outputs.find(output => output.kind === "entry-point")!;
+  const { renderPage, renderDocsPage } = (await import(prerenderEntry.path)) as typeof import("./src/prerender");
+  await loadAllCatalogs();
+
+  // Every page is emitted once per language; non-default languages go under
+  // their `/<lang>/` prefix, matching the routes of the Bun server. The
+  // server can't give static pages a nonce, so their CSP allows the inline
+  // scripts by hash instead.
+  const scriptHashes: Record<string, string[]> = {};
+
+  const write = async (file: string, html: string, pagePath: string, language: Language) => {
+    const target = path.join(outdir, file);
+    await Bun.write(target, html);
+    scriptHashes["/" + file.split(path.sep).join("/")] = inlineScriptHashes(html);
+    console.log(`Prerendered ${localizedPath(pagePath, language)} to ${target}`);
+  };
+
+  for (const page of prerenderedDocuments) {
+    const template = await Bun.file(path.join(outdir, page.entry)).text();
+
+    for (const language of Object.keys(languages) as Language[]) {
+      const file = path.join(language === defaultLanguage ? "" : language, page.entry);
+      const document = new Response(injectMarkup(template, await renderPage(page.entry, language)));
+      await write(file, await renderDocument(document, page, language).text(), page.path, language);
+    }
+  }
+
+  // The documentation has a page for every Markdown file of the content
+  // directory, at `docs/<path>/index.html`; the overview takes the place of
+  // the template.
+  const docsTemplateHtml = await Bun.file(path.join(outdir, docsTemplate.entry)).text();
+
+  for (const pagePath of docsPaths(docs)) {
+    for (const language of Object.keys(languages) as Language[]) {
+      const view = docsView(docs, pagePath, language)!;
+      const file = path.join(language === defaultLanguage ? "" : language, pagePath.slice(1), "index.html");
+      const document = new Response(injectMarkup(docsTemplateHtml, await renderDocsPage(view, language)));
+      const html = await renderDocsDocument(document, view, docsHead(docs, pagePath, view, language), language).text();
+      await write(file, html, pagePath, language);
+    }
+  }
+
+  await Bun.write(path.join(outdir, CSP_HASHES_FILE), JSON.stringify(scriptHashes, null, 2));
+} finally {
+  await rm(prerenderDir, { recursive: true, force: true });
 }
 
+const end = performance.now();
+const buildTime = (end - start).toFixed(2);
+
+// Generate sitemap.xml from the page registry and the documentation
+await Bun.write(path.join(outdir, "sitemap.xml"), sitemapXml(docs));
+console.log(`Generated sitemap.xml at ${path.join(outdir, "sitemap.xml")}`);
+
+// Redirect table and 404 pages for static hosts (`src/redirects.ts`)
+await Bun.write(path.join(outdir, "_redirects"), redirectsFile());
+console.log(`Generated _redirects at ${path.join(outdir, "_redirects")}`);
+
 // Copy og.png to dist
 const ogImage = Bun.file("./src/og.png");
 if (await ogImage.exists()) {
@@ -180,4 +292,8 @@ if (await logo.exists()) {
   console.log(`Copied logo.png to ${path.join(outdir, "logo.png")}`);
 }
 
+// Brotli and gzip variants for the production server (`src/static.ts`)
+const variants = await precompress(outdir);
+console.log(`Precompressed ${variants} Brotli and gzip variants`);
+
 console.log(`\nBuild completed in ${buildTime}ms\n`);
@@ -15,3 +15,11 @@ declare module "*.module.css" {
   const classes: { readonly [key: string]: string };
   export = classes;
 }
+
+declare module "*.md" {
+  /**
+   * The text of the Markdown file, imported `with { type: "text" }`
+   */
+  const text: string;
+  export default text;
+}
@@ -0,0 +1,34 @@
+#!/usr/bin/env bun
+import { compareCatalogs, invalidMessages } from "./src/i18n/check";
+import { type Language, defaultLanguage, languages, loadCatalog } from "./src/i18n/i18n";
+
+// Every locale catalog must have exactly the key shape of the English one,
+// and every message must be valid ICU syntax.
+let failed = false;
+
+const reference = await loadCatalog(defaultLanguage);
+
+for (const language of Object.keys(languages) as Language[]) {
+  const catalog = await loadCatalog(language);
+  const { missing, extra, mismatched } =
+    language === defaultLanguage
+      ? { missing: [], extra: [], mismatched: [] }
+      : compareCatalogs(reference, catalog);
+  const problems = [
+    ...missing.map(key => `  missing     ${key}`),
+    ...extra.map(key => `  extra       ${key}`),
+    ...mismatched.map(key => `  mismatched  ${key}`),
+    ...invalidMessages(catalog, language).map(({ key, error }) => `  invalid     ${key}: ${error}`),
+  ];
+
+  if (problems.length > 0) {
+    failed = true;
+    console.error(`${language}.json has problems:\n${problems.join("\n")}`);
+  } else {
+    console.log(`${language}.json is valid`);
+  }
+}
+
+if (failed) {
+  process.exit(1);
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env bun
+import path from "path";
+import { currentVersion } from "./src/legal/documents";
+import { FREE_LIMITS, type ProductKey, products, storefronts } from "./src/pricing";
+
+// The pricing model must match the App Store products in the StoreKit
+// configuration and the free-tier limits enforced by the app.
+const storeKitFile = path.join(import.meta.dir, "../VVTermStoreKit.storekit");
+const limitsFile = path.join(import.meta.dir, "../VVTerm/Managers/ServerManager.swift");
+
+interface StoreKitProduct {
+  productID: string;
+  type: string;
+  displayPrice: string;
+  recurringSubscriptionPeriod?: string;
+}
+
+interface StoreKitConfig {
+  products: StoreKitProduct[];
+  subscriptionGroups: { subscriptions: StoreKitProduct[] }[];
+  settings: { _storefront?: string };
+}
+
+const storeKit = (await Bun.file(storeKitFile).json()) as StoreKitConfig;
+const storeKitProducts = [...storeKit.products, ...storeKit.subscriptionGroups.flatMap(group => group.subscriptions)];
+const storefront = Object.values(storefronts).find(({ storeKitCode }) => storeKitCode === storeKit.settings._storefront);
+const problems: string[] = [];
+
+if (!storefront) {
+  problems.push(`  no storefront for StoreKit storefront ${storeKit.settings._storefront}`);
+}
+
+for (const [key, product] of Object.entries(products) as [ProductKey, (typeof products)[ProductKey]][]) {
+  const configured = storeKitProducts.find(({ productID }) => productID === product.productId);
+  if (!configured) {
+    problems.push(`  missing     ${product.productId} (${key})`);
+    continue;
+  }
+  if (configured.type !== product.type) {
+    problems.push(`  type        ${product.productId}: ${configured.type}, pricing.ts says ${product.type}`);
+  }
+  if (configured.recurringSubscriptionPeriod !== product.period) {
+    problems.push(
+      `  period      ${product.productId}: ${configured.recurringSubscriptionPeriod}, pricing.ts says ${product.period}`,
+    );
+  }
+  if (storefront && Number(configured.displayPrice) !== storefront.prices[key]) {
+    problems.push(
+      `  price       ${product.productId}: ${configured.displayPrice}, pricing.ts says ${storefront.prices[key]} (${storefront.storeKitCode})`,
+    );
+  }
+}
+
+for (const { productID } of storeKitProducts) {
+  if (!Object.values(products).some(({ productId }) => productId === productID)) {
+    problems.push(`  extra       ${productID}`);
+  }
+}
+
+const swiftLimits = await Bun.file(limitsFile).text();
+const limitNames: Record<keyof typeof FREE_LIMITS, string> = {
+  workspaces: "maxWorkspaces",
+  servers: "maxServers",
+  tabs: "maxTabs",
+};
+
+for (const [key, name] of Object.entries(limitNames) as [keyof typeof FREE_LIMITS, string][]) {
+  const value = swiftLimits.match(new RegExp(`static let ${name} = (\\d+)`))?.[1];
+  if (Number(value) !== FREE_LIMITS[key]) {
+    problems.push(`  limit       ${name}: ${value ?? "not found"}, pricing.ts says ${FREE_LIMITS[key]}`);
+  }
+}
+
+// The Terms of Use state the free-tier limits; changing them takes a new
+// version of the terms in src/legal/terms/.
+const termsText = JSON.stringify(currentVersion("terms", "en").sections);
+const termsPatterns: Record<keyof typeof FREE_LIMITS, RegExp> = {
+  workspaces: /(\d+) workspaces?\b/,
+  servers: /(\d+) servers?\b/,
+  tabs: /(\d+) simultaneous connections?\b/,
+};
+
+for (const [key, pattern] of Object.entries(termsPatterns) as [keyof typeof FREE_LIMITS, RegExp][]) {
+  const value = termsText.match(pattern)?.[1];
+  if (Number(value) !== FREE_LIMITS[key]) {
+    problems.push(`  terms       ${key}: ${value ?? "not found"}, pricing.ts says ${FREE_LIMITS[key]}`);
+  }
+}
+
+if (problems.length > 0) {
+  console.error(`pricing.ts doesn't match the app:\n${problems.join("\n")}`);
+  process.exit(1);
+}
+
+console.log("pricing.ts matches VVTermStoreKit.storekit, FreeTierLimits and the Terms of Use");
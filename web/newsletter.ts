@@ -0,0 +1,74 @@
+#!/usr/bin/env bun
+import { readFile } from "fs/promises";
+import { isLanguage, loadAllCatalogs } from "./src/i18n/i18n";
+import { parseFrontMatter } from "./src/legal/markdown";
+import { mailTransport } from "./src/mail";
+import { announcement } from "./src/newsletter/server";
+import { openNewsletterStore } from "./src/newsletter/store";
+import { SITE_URL } from "./src/site";
+
+const usage = `
+Release announcements to the newsletter's subscribers
+
+Usage:
+  bun run newsletter.ts count
+  bun run newsletter.ts send <lang> <file> [--url <site url>]
+
+Commands:
+  count  Show how many addresses are pending, confirmed and unsubscribed.
+  send   Email <file> to the confirmed subscribers of <lang>. The file is
+         plain text with its subject in front matter (\`subject: ...\`); each
+         message gets a one-click unsubscribe link to the site (SITE_URL,
+         https://vvterm.com by default).
+
+Uses the server's NEWSLETTER_DB, MAIL_URL, MAIL_FROM and NEWSLETTER_SECRET;
+the secret must be the server's, or the unsubscribe links won't work.
+`;
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const store = openNewsletterStore(process.env.NEWSLETTER_DB ?? "data/newsletter.sqlite");
+
+async function send(language: string | undefined, file: string | undefined) {
+  if (!isLanguage(language) || !file) fail(usage);
+  const secret = process.env.NEWSLETTER_SECRET ?? fail("Set NEWSLETTER_SECRET to the server's");
+
+  const { data, body } = parseFrontMatter(await readFile(file, "utf8"));
+  if (!data.subject) fail(`${file} has no subject in its front matter`);
+
+  await loadAllCatalogs();
+  const transport = mailTransport(process.env.MAIL_URL ?? "maildir:data/mail");
+  const options = {
+    from: process.env.MAIL_FROM ?? "VVTerm <noreply@vvterm.com>",
+    secret,
+    siteUrl: option("url") ?? process.env.SITE_URL ?? SITE_URL,
+  };
+
+  let sent = 0;
+  for (const subscriber of store.subscribers(language)) {
+    try {
+      await transport.send(announcement(subscriber, { subject: data.subject, text: body }, options));
+      sent++;
+    } catch (error) {
+      console.error(`Sending to ${subscriber.email} failed:`, error);
+    }
+  }
+  console.log(`Sent "${data.subject}" to ${sent} ${language} subscribers`);
+}
+
+const [command, ...args] = process.argv.slice(2);
+if (command === "count") {
+  for (const [status, count] of Object.entries(store.counts())) console.log(`${status}: ${count}`);
+} else if (command === "send") {
+  await send(args[0], args[1]);
+} else {
+  fail(usage);
+}
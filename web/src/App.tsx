@@ -1,4 +1,4 @@
-import React, { useState, lazy, Suspense } from "react";
+import React, { useEffect, useState, lazy, Suspense } from "react";
 import {
   Server,
   Terminal,
@@ -10,62 +10,61 @@ import {
   Key,
   Check,
   Github,
+  type LucideIcon,
 } from "lucide-react";
 import logo from "./logo.png";
 import appStoreBadge from "./app-store-badge.svg";
 import previewScreenshot from "./preview.png";
+import { track } from "./analytics/analytics";
 import { useLanguage, LanguageProvider } from "./i18n/LanguageContext";
-import type { Language } from "./i18n/i18n";
-
-declare global {
-  interface Window {
-    umami?: {
-      track: (eventName: string) => void;
-    };
-  }
-}
-
-const APP_STORE_URL = "https://apps.apple.com/app/vvterm/id6757482822";
-const GITHUB_REPO_URL = "https://github.com/vivy-company/vvterm";
+import { type Catalog, type Language, type TranslationKey } from "./i18n/i18n";
+import { Layout } from "./components/Layout";
+import { SubscribeForm } from "./components/SubscribeForm";
+import {
+  type BillingCycle,
+  type ProductKey,
+  type StorefrontId,
+  defaultStorefronts,
+  products,
+  savedStorefront,
+  saveStorefront,
+  storefrontForLocales,
+  storefronts,
+  tiers,
+  yearlySavings,
+} from "./pricing";
+import { APP_STORE_URL, GITHUB_REPO_URL } from "./site";
 
 const FAQSection = lazy(() => import("./components/FAQSection"));
 
-type BillingCycle = "monthly" | "yearly";
+type FeatureKey = Exclude<keyof Catalog["features"], "title">;
 
-function LanguageSwitcher({ onLanguageChange }: { onLanguageChange?: (lang: string) => void }) {
-  const { language, setLanguage, availableLanguages } = useLanguage();
-
-  return (
-    <select
-      value={language}
-      onChange={(e) => {
-        const newLang = e.target.value as Language;
-        setLanguage(newLang);
-        onLanguageChange?.(newLang);
-      }}
-      className="bg-transparent border-none text-sm text-zinc-500 cursor-pointer hover:text-blue-500 transition-colors appearance-none"
-    >
-      {Object.entries(availableLanguages).map(([code, name]) => (
-        <option key={code} value={code} className="bg-[#1d1d1f] text-white">
-          {name}
-        </option>
-      ))}
-    </select>
-  );
-}
+/** Message that formats each product's price on the pricing cards. */
+const PRICE_KEYS: Record<ProductKey, TranslationKey> = {
+  monthly: "pricing.pro.monthly.price",
+  yearly: "pricing.pro.yearly.price",
+  lifetime: "pricing.lifetime.price",
+};
 
 function AppContent() {
-  const { t } = useLanguage();
+  const { t, tList, language } = useLanguage();
   const [billingCycle, setBillingCycle] = useState<BillingCycle>("yearly");
-  const currentYear = new Date().getFullYear();
+  const [storefrontId, setStorefrontId] = useState<StorefrontId>(defaultStorefronts[language]);
+  const storefront = storefronts[storefrontId];
+  const savings = yearlySavings(storefront);
+  const formatPrice = (product: ProductKey) =>
+    t(PRICE_KEYS[product], { price: storefront.prices[product], currency: storefront.currency });
+
+  // The prerendered page shows the language's default storefront; once
+  // running in the browser, switch to the one picked by hand or matching the
+  // visitor's locales.
+  useEffect(() => {
+    setStorefrontId(savedStorefront() ?? storefrontForLocales(navigator.languages, language));
+  }, [language]);
 
-  const trackEvent = (eventName: string) => {
-    if (typeof window !== "undefined" && window.umami) {
-      window.umami.track(eventName);
-    }
-  };
+  const regionNames = new Intl.DisplayNames([language], { type: "region" });
 
-  const features = [
+  const features: { icon: LucideIcon; bg: string; color: string; key: FeatureKey; span?: boolean }[] = [
     { icon: Server, bg: "rgba(0,122,255,0.1)", color: "#007aff", key: "servers", span: true },
     { icon: Terminal, bg: "rgba(48,209,88,0.1)", color: "#30d158", key: "terminal", span: true },
     { icon: Key, bg: "rgba(255,149,0,0.1)", color: "#ff9500", key: "ssh" },
@@ -77,10 +76,9 @@ function AppContent() {
   ];
 
   return (
-    <div className="w-full overflow-x-hidden">
-
+    <Layout>
       {/* Hero Section */}
-      <main className="relative text-center py-20 px-6 pb-10 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,rgba(0,113,227,0.15),transparent)] animate-[gradient-shift_15s_ease-in-out_infinite]">
+      <section className="relative text-center py-20 px-6 pb-10 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,rgba(0,113,227,0.15),transparent)] animate-[gradient-shift_15s_ease-in-out_infinite]">
         <div className="max-w-[980px] mx-auto">
           <div className="inline-flex flex-col items-center mb-8 relative">
             <img src={logo} alt="VVTerm" className="w-32 h-32 rounded-[28px] drop-shadow-[0_0_40px_rgba(0,113,227,0.3)]" />
@@ -94,7 +92,7 @@ function AppContent() {
               href={APP_STORE_URL}
               target="_blank"
               rel="noopener noreferrer"
-              onClick={() => trackEvent("appstore_click")}
+              onClick={() => track("appstore_click", { placement: "hero" })}
               className="transition-opacity duration-200 hover:opacity-80"
             >
               <img src={appStoreBadge} alt="Download on the App Store" className="h-[52px] block rounded-[8px]" />
@@ -103,7 +101,7 @@ function AppContent() {
               href={GITHUB_REPO_URL}
               target="_blank"
               rel="noopener noreferrer"
-              onClick={() => trackEvent("github_click_hero")}
+              onClick={() => track("github_click", { placement: "hero" })}
               className="inline-flex items-center gap-2 px-6 py-3 text-[17px] font-normal text-blue-500 hover:underline transition-all duration-200"
             >
               <Github size={18} />
@@ -114,7 +112,7 @@ function AppContent() {
             {t("hero.requirements")}
           </p>
         </div>
-      </main>
+      </section>
 
       {/* Visual Showcase */}
       <section className="py-12 px-6 pb-20">
@@ -164,11 +162,11 @@ function AppContent() {
         <div className="max-w-[720px] mx-auto">
           <h2 className="text-[56px] font-semibold text-center mb-16 tracking-tight">{t("howItWorks.title")}</h2>
           <div className="flex flex-col gap-10">
-            {[
+            {([
               { num: "1", key: "step1" },
               { num: "2", key: "step2" },
               { num: "3", key: "step3" },
-            ].map((step) => (
+            ] as const).map((step) => (
               <div key={step.num} className="flex gap-6 items-start">
                 <span className="text-[40px] font-bold text-blue-500 font-mono min-w-[60px]">{step.num}</span>
                 <div>
@@ -182,18 +180,38 @@ function AppContent() {
       </section>
 
       {/* Pricing */}
-      <section className="py-20 px-6">
+      <section id="pricing" className="py-20 px-6">
         <div className="max-w-[1200px] mx-auto">
           <h2 className="text-[56px] font-semibold text-center mb-4 tracking-tight">{t("pricing.title")}</h2>
-          <p className="text-[#86868b] text-center text-lg mb-16">{t("pricing.subtitle")}</p>
+          <p className="text-[#86868b] text-center text-lg mb-4">{t("pricing.subtitle")}</p>
+          <div className="flex justify-center items-center gap-2 mb-12 text-sm text-[#86868b]">
+            <label htmlFor="storefront">{t("pricing.storefront")}</label>
+            <select
+              id="storefront"
+              value={storefrontId}
+              onChange={(e) => {
+                const id = e.target.value as StorefrontId;
+                track("storefront_change", { storefront: id });
+                saveStorefront(id);
+                setStorefrontId(id);
+              }}
+              className="bg-transparent border-none text-sm text-zinc-300 cursor-pointer hover:text-blue-500 transition-colors"
+            >
+              {(Object.keys(storefronts) as StorefrontId[]).map((id) => (
+                <option key={id} value={id} className="bg-[#1d1d1f] text-white">
+                  {`${regionNames.of(id)} (${storefronts[id].currency})`}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {/* Free Tier */}
             <div className="bg-white/[0.03] border border-white/8 rounded-3xl p-8 flex flex-col">
               <h3 className="text-2xl font-semibold mb-2">{t("pricing.free.name")}</h3>
               <p className="text-[#86868b] mb-6">{t("pricing.free.description")}</p>
-              <div className="text-4xl font-bold mb-6">{t("pricing.free.price")}<span className="text-lg font-normal text-[#86868b]">{t("pricing.free.period")}</span></div>
+              <div className="text-4xl font-bold mb-6">{t("pricing.free.price", { price: 0, currency: storefront.currency })}<span className="text-lg font-normal text-[#86868b]">{t("pricing.free.period")}</span></div>
               <ul className="space-y-3 mb-8 flex-1">
-                {(t("pricing.free.features") as unknown as string[]).map((feature: string) => (
+                {tList("pricing.free.features", tiers.free.limits).map((feature) => (
                   <li key={feature} className="flex items-center gap-3 text-[#86868b]">
                     <Check size={18} className="text-green-500 flex-shrink-0" />
                     {feature}
@@ -204,7 +222,7 @@ function AppContent() {
                 href={APP_STORE_URL}
                 target="_blank"
                 rel="noopener noreferrer"
-                onClick={() => trackEvent("pricing_free_click")}
+                onClick={() => track("pricing_click", { tier: "free" })}
                 className="block w-full py-3 text-center text-[17px] font-normal border border-white/20 text-white rounded-full hover:bg-white/5 transition-all duration-200"
               >
                 {t("pricing.free.cta")}
@@ -218,25 +236,25 @@ function AppContent() {
               {/* Billing Toggle */}
               <div className="flex bg-white/[0.05] rounded-full p-1 mb-6">
                 <button
-                  onClick={() => { trackEvent("billing_toggle_monthly"); setBillingCycle("monthly"); }}
+                  onClick={() => { track("billing_toggle", { billing: "monthly" }); setBillingCycle("monthly"); }}
                   className={`flex-1 py-2 px-4 text-sm font-medium rounded-full transition-all duration-200 ${billingCycle === "monthly" ? "bg-white/10 text-white" : "text-[#86868b] hover:text-white"}`}
                 >
-                  Monthly
+                  {t("pricing.pro.billing.monthly")}
                 </button>
                 <button
-                  onClick={() => { trackEvent("billing_toggle_yearly"); setBillingCycle("yearly"); }}
+                  onClick={() => { track("billing_toggle", { billing: "yearly" }); setBillingCycle("yearly"); }}
                   className={`flex-1 py-2 px-4 text-sm font-medium rounded-full transition-all duration-200 relative ${billingCycle === "yearly" ? "bg-white/10 text-white" : "text-[#86868b] hover:text-white"}`}
                 >
-                  Yearly
-                  <span className="absolute -top-2 -right-2 px-1.5 py-0.5 text-[10px] font-semibold bg-green-500 text-white rounded-full">{t("pricing.pro.yearly.save")}</span>
+                  {t("pricing.pro.billing.yearly")}
+                  <span className="absolute -top-2 -right-2 px-1.5 py-0.5 text-[10px] font-semibold bg-green-500 text-white rounded-full">{t("pricing.pro.yearly.save", { savings })}</span>
                 </button>
               </div>
               <div className="text-4xl font-bold mb-6">
-                {billingCycle === "monthly" ? t("pricing.pro.monthly.price") : t("pricing.pro.yearly.price")}
+                {formatPrice(billingCycle)}
                 <span className="text-lg font-normal text-[#86868b]">{billingCycle === "monthly" ? t("pricing.pro.monthly.period") : t("pricing.pro.yearly.period")}</span>
               </div>
               <ul className="space-y-3 mb-8 flex-1">
-                {(t("pricing.pro.features") as unknown as string[]).map((feature: string) => (
+                {tList("pricing.pro.features").map((feature) => (
                   <li key={feature} className="flex items-center gap-3 text-[#86868b]">
                     <Check size={18} className="text-blue-500 flex-shrink-0" />
                     {feature}
@@ -247,7 +265,7 @@ function AppContent() {
                 href={APP_STORE_URL}
                 target="_blank"
                 rel="noopener noreferrer"
-                onClick={() => trackEvent(billingCycle === "monthly" ? "pricing_pro_monthly_click" : "pricing_pro_yearly_click")}
+                onClick={() => track("pricing_click", { tier: "pro", billing: billingCycle })}
                 className="block w-full py-3 text-center text-[17px] font-normal border border-white/20 text-white rounded-full hover:bg-white/5 transition-all duration-200"
               >
                 {billingCycle === "monthly" ? t("pricing.pro.ctaMonthly") : t("pricing.pro.ctaYearly")}
@@ -261,9 +279,9 @@ function AppContent() {
               </div>
               <h3 className="text-2xl font-semibold mb-2">{t("pricing.lifetime.name")}</h3>
               <p className="text-[#86868b] mb-6">{t("pricing.lifetime.description")}</p>
-              <div className="text-4xl font-bold mb-6">{t("pricing.lifetime.price")}</div>
+              <div className="text-4xl font-bold mb-6">{formatPrice("lifetime")}</div>
               <ul className="space-y-3 mb-8 flex-1">
-                {(t("pricing.lifetime.features") as unknown as string[]).map((feature: string) => (
+                {tList("pricing.lifetime.features").map((feature) => (
                   <li key={feature} className="flex items-center gap-3 text-[#86868b]">
                     <Check size={18} className="text-blue-500 flex-shrink-0" />
                     {feature}
@@ -275,7 +293,7 @@ function AppContent() {
                   href={APP_STORE_URL}
                   target="_blank"
                   rel="noopener noreferrer"
-                  onClick={() => trackEvent("pricing_lifetime_click")}
+                  onClick={() => track("pricing_click", { tier: "lifetime" })}
                   className="block w-full py-3 text-center text-[17px] font-normal bg-blue-500 text-white rounded-full hover:bg-blue-600 transition-all duration-200"
                 >
                   {t("pricing.lifetime.cta")}
@@ -287,47 +305,26 @@ function AppContent() {
         </div>
       </section>
 
+      {/* Newsletter */}
+      <section className="px-6 pb-20">
+        <div className="max-w-[700px] mx-auto">
+          <SubscribeForm placement="home" />
+        </div>
+      </section>
+
       {/* FAQ */}
       <Suspense fallback={<div className="py-20 px-6"><div className="max-w-[720px] mx-auto text-center text-zinc-500">Loading...</div></div>}>
-        <FAQSection />
+        <FAQSection
+          terms={(Object.keys(products) as ProductKey[]).map(product => ({ term: formatPrice(product), kind: "offer" }))}
+        />
       </Suspense>
-
-      {/* Footer */}
-      <footer className="py-12 px-6 border-t border-white/8 mt-20">
-        <div className="max-w-[1200px] mx-auto flex flex-col md:flex-row justify-between items-center md:items-center gap-6">
-          <p className="text-sm text-[#86868b] text-center md:text-left">© {currentYear} {t("footer.copyright")}</p>
-          <div className="flex flex-col sm:flex-row gap-4 sm:gap-6 items-center">
-            <a href="https://discord.gg/zemMZtrkSb" onClick={() => trackEvent("discord_click")} className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200" target="_blank" rel="noopener noreferrer">
-              {t("footer.discord")}
-            </a>
-            <a href={GITHUB_REPO_URL} onClick={() => trackEvent("github_click_footer")} className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200" target="_blank" rel="noopener noreferrer">
-              {t("hero.viewOnGithub")}
-            </a>
-            <span className="text-zinc-700 hidden sm:inline">|</span>
-            <a href="/privacy" className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200">
-              Privacy
-            </a>
-            <a href="/terms" className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200">
-              Terms of Use (EULA)
-            </a>
-            <a href="/refund" className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200">
-              Refunds
-            </a>
-            <a href="/support" className="text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200">
-              Support
-            </a>
-            <span className="text-zinc-700 hidden sm:inline">|</span>
-            <LanguageSwitcher onLanguageChange={(lang) => trackEvent(`language_change_${lang}`)} />
-          </div>
-        </div>
-      </footer>
-    </div>
+    </Layout>
   );
 }
 
-export function App() {
+export function App({ language }: { language?: Language }) {
   return (
-    <LanguageProvider>
+    <LanguageProvider language={language}>
       <AppContent />
     </LanguageProvider>
   );
@@ -0,0 +1,129 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { type Count, type DailyStats, type StatsStore } from "./store";
+
+const STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, sans-serif; background: #000; color: #f5f5f7; margin: 0; padding: 32px; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  h2 { font-size: 18px; margin: 32px 0 8px; }
+  nav a { color: #2997ff; margin-right: 12px; }
+  table { border-collapse: collapse; min-width: 480px; }
+  th, td { text-align: left; padding: 4px 16px 4px 0; border-bottom: 1px solid #333; }
+  td.number, th.number { text-align: right; font-variant-numeric: tabular-nums; }
+  .muted { color: #86868b; }
+`;
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "–";
+}
+
+function CountTable({ label, rows }: { label: string; rows: Count[] }) {
+  if (rows.length === 0) return <p className="muted">None yet.</p>;
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th className="number">Count</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.name}>
+            <td>{row.name}</td>
+            <td className="number">{row.count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function DailyTable({ days }: { days: DailyStats[] }) {
+  const total = days.reduce(
+    (sum, day) => ({
+      pageviews: sum.pageviews + day.pageviews,
+      visitors: sum.visitors + day.visitors,
+      appStoreClicks: sum.appStoreClicks + day.appStoreClicks,
+      converted: sum.converted + day.converted,
+    }),
+    { pageviews: 0, visitors: 0, appStoreClicks: 0, converted: 0 },
+  );
+
+  const row = (label: string, stats: Omit<DailyStats, "day">) => (
+    <tr key={label}>
+      <td>{label}</td>
+      <td className="number">{stats.pageviews}</td>
+      <td className="number">{stats.visitors}</td>
+      <td className="number">{stats.appStoreClicks}</td>
+      <td className="number">{percent(stats.converted, stats.visitors)}</td>
+    </tr>
+  );
+
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>Day (UTC)</th>
+          <th className="number">Page views</th>
+          <th className="number">Visitors</th>
+          <th className="number">App Store clicks</th>
+          <th className="number">Conversion</th>
+        </tr>
+      </thead>
+      <tbody>
+        {[...days].reverse().map(day => row(day.day, day))}
+        {row("Total", total)}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * The `/admin/stats` dashboard: daily counts, conversion from page view to
+ * App Store click, top referrers and pages, and the catalog events. Rendered
+ * on the server as static markup; it has no scripts or styles of the site.
+ */
+export function renderStatsPage(store: StatsStore, days: number): string {
+  const events = store.events(days);
+
+  return renderToStaticMarkup(
+    <html lang="en">
+      <head>
+        <meta charSet="UTF-8" />
+        <meta name="robots" content="noindex" />
+        <title>VVTerm stats</title>
+        <style>{STYLE}</style>
+      </head>
+      <body>
+        <h1>VVTerm stats</h1>
+        <nav>
+          {[7, 30, 90, 365].map(option => (
+            <a key={option} href={`?days=${option}`}>
+              {option} days
+            </a>
+          ))}
+        </nav>
+        <p className="muted">
+          Visitors are counted once per day. Conversion is the share of visitors who viewed a page and then clicked
+          through to the App Store.
+        </p>
+
+        <h2>Last {days} days</h2>
+        <DailyTable days={store.daily(days)} />
+
+        <h2>Top referrers</h2>
+        <CountTable label="Referrer" rows={store.topReferrers(days, 20)} />
+
+        <h2>Top pages</h2>
+        <CountTable label="Page" rows={store.topPages(days, 20)} />
+
+        <h2>Events</h2>
+        <CountTable
+          label="Event"
+          rows={events.map(({ name, detail, count }) => ({ name: detail === "{}" ? name : `${name} ${detail}`, count }))}
+        />
+      </body>
+    </html>,
+  );
+}
@@ -0,0 +1,101 @@
+import type { AnalyticsEventName, AnalyticsEvents, AnalyticsProperties } from "./events";
+import { type Consent, type OptionalCategory, onConsentChange, readConsent } from "./consent";
+import {
+  type AnalyticsProvider,
+  consoleProvider,
+  firstPartyProvider,
+  gtagProvider,
+  noopProvider,
+  umamiProvider,
+} from "./providers";
+
+export const UMAMI = { src: "https://analytics.vivy.app/script.js", websiteId: "22711a63-9ec0-491c-ad86-71cb0b6ad4dd" };
+const GOOGLE_TAG_ID = "AW-17966112771";
+const EVENT_ENDPOINT = "/api/event";
+
+interface Registration {
+  provider: AnalyticsProvider;
+  ready: boolean;
+  /** Events tracked while the provider was loading. */
+  queue: { event: string; properties: AnalyticsProperties }[];
+}
+
+const registrations: Registration[] = [];
+
+/**
+ * Adds a provider and starts loading it. Events tracked from then on are
+ * sent to it, queued until it has loaded; if it fails to load (blocked by
+ * the browser, say), they are dropped.
+ */
+export function registerProvider(provider: AnalyticsProvider): void {
+  const registration: Registration = { provider, ready: false, queue: [] };
+  registrations.push(registration);
+
+  provider.load().then(
+    () => {
+      registration.ready = true;
+      for (const { event, properties } of registration.queue.splice(0)) {
+        provider.track(event, properties);
+      }
+    },
+    error => {
+      console.warn(`Analytics provider "${provider.name}" failed to load:`, error);
+      registrations.splice(registrations.indexOf(registration), 1);
+    },
+  );
+}
+
+/** Sends an event from the catalog in `events.ts` to every registered provider. */
+export function track<E extends AnalyticsEventName>(event: E, properties: AnalyticsEvents[E]): void {
+  for (const registration of registrations) {
+    if (registration.ready) {
+      registration.provider.track(event, properties);
+    } else {
+      registration.queue.push({ event, properties });
+    }
+  }
+}
+
+/** The providers of each optional consent category in the current environment. */
+function consentedProviders(category: OptionalCategory): AnalyticsProvider[] {
+  switch (process.env.NODE_ENV) {
+    case "production":
+      return category === "analytics" ? [umamiProvider(UMAMI)] : [gtagProvider({ id: GOOGLE_TAG_ID })];
+    case "test":
+      return [noopProvider()];
+    default:
+      return category === "analytics" ? [consoleProvider()] : [];
+  }
+}
+
+/**
+ * Registers the providers the visitor has consented to: Umami for analytics
+ * and Google tag for advertising in production builds, the console on the
+ * dev server. Nothing is loaded before consent; providers of categories
+ * granted later start then. A loaded script can't be unloaded, so revoking a
+ * category reloads the page. Our own endpoint sets no cookies and stores
+ * nothing that identifies the visitor, so production builds always send to
+ * it. Called once per page by `mount()`.
+ */
+export function startAnalytics(): void {
+  const started = new Set<OptionalCategory>();
+
+  if (process.env.NODE_ENV === "production") {
+    registerProvider(firstPartyProvider({ endpoint: EVENT_ENDPOINT }));
+  }
+
+  const apply = (consent: Consent | undefined) => {
+    for (const category of ["analytics", "advertising"] as const) {
+      if (consent?.[category] && !started.has(category)) {
+        started.add(category);
+        consentedProviders(category).forEach(registerProvider);
+      } else if (!consent?.[category] && started.has(category)) {
+        window.location.reload();
+        return;
+      }
+    }
+  };
+
+  apply(readConsent());
+  onConsentChange(apply);
+}
@@ -0,0 +1,71 @@
+/**
+ * Cookie consent. Strictly necessary cookies (language, storefront and this
+ * one) are always set; the optional categories gate which analytics
+ * providers `startAnalytics()` loads. The choice is kept in a first-party
+ * cookie together with the consent version it was given for.
+ */
+export const CONSENT_COOKIE = "vvterm-consent";
+
+/**
+ * Bump when the privacy policy changes what is collected, so that every
+ * visitor is asked again.
+ */
+export const CONSENT_VERSION = 1;
+
+export const consentCategories = ["necessary", "analytics", "advertising"] as const;
+
+export type ConsentCategory = (typeof consentCategories)[number];
+export type OptionalCategory = Exclude<ConsentCategory, "necessary">;
+export type ConsentChoices = Record<OptionalCategory, boolean>;
+
+export interface Consent extends ConsentChoices {
+  version: number;
+  /** When the choice was made, as an ISO date. */
+  date: string;
+}
+
+const changeListeners = new Set<(consent: Consent) => void>();
+const settingsListeners = new Set<() => void>();
+
+/** The visitor's choice, unless they haven't made one for the current version. */
+export function readConsent(): Consent | undefined {
+  const value = document.cookie.match(new RegExp(`(?:^|; )${CONSENT_COOKIE}=([^;]*)`))?.[1];
+  if (!value) return undefined;
+
+  try {
+    const consent = JSON.parse(decodeURIComponent(value)) as Partial<Consent>;
+    if (consent.version !== CONSENT_VERSION) return undefined;
+    return {
+      version: consent.version,
+      date: String(consent.date),
+      analytics: consent.analytics === true,
+      advertising: consent.advertising === true,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveConsent(choices: ConsentChoices): Consent {
+  const consent: Consent = { version: CONSENT_VERSION, date: new Date().toISOString(), ...choices };
+  const value = encodeURIComponent(JSON.stringify(consent));
+  document.cookie = `${CONSENT_COOKIE}=${value}; path=/; max-age=31536000; samesite=lax`;
+  for (const listener of changeListeners) listener(consent);
+  return consent;
+}
+
+/** Calls `listener` whenever the visitor saves a choice. Returns an unsubscribe function. */
+export function onConsentChange(listener: (consent: Consent) => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+/** Opens the cookie settings dialog, as the footer link does. */
+export function openConsentSettings(): void {
+  for (const listener of settingsListeners) listener();
+}
+
+export function onOpenConsentSettings(listener: () => void): () => void {
+  settingsListeners.add(listener);
+  return () => settingsListeners.delete(listener);
+}
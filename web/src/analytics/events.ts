@@ -0,0 +1,89 @@
+import { type Language, languages } from "../i18n/i18n";
+import en from "../i18n/translations/en.json";
+import { type BillingCycle, type StorefrontId, type TierId, storefronts, tiers } from "../pricing";
+import { type TicketTopic, ticketTopics } from "../tickets/form";
+
+/**
+ * Every analytics event the website sends, with its properties. Providers
+ * receive the name and properties as they are; keep names stable, since
+ * dashboards and conversion goals refer to them.
+ */
+export interface AnalyticsEvents {
+  /** App Store links outside the pricing cards. */
+  appstore_click: { placement: "hero" };
+  github_click: { placement: "hero" | "footer" };
+  discord_click: { placement: "footer" | "thanks" };
+  /** Call-to-action buttons of the pricing cards, which lead to the App Store. */
+  pricing_click: { tier: TierId; billing?: BillingCycle };
+  billing_toggle: { billing: BillingCycle };
+  storefront_change: { storefront: StorefrontId };
+  language_change: { from: Language; to: Language };
+  faq_open: { id: string };
+  /** The "read the English version" link on translated legal pages. */
+  english_version_click: { path: string };
+  /** Links to other sites and `mailto:` links in catalog rich text. */
+  outbound_click: { url: string };
+  /** A request sent with the support form. */
+  support_ticket: { topic: TicketTopic };
+  /** A signup for release announcements, before it is confirmed by email. */
+  newsletter_signup: { placement: "home" | "thanks" | "newsletter" };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+export type AnalyticsProperties = Record<string, string | number | boolean | undefined>;
+
+/** What a property's values may be: one of a list, or a string of a format in `STRING_FORMATS`. */
+type PropertyRule<T> = readonly NonNullable<T>[] | keyof typeof STRING_FORMATS;
+
+const STRING_FORMATS = {
+  path: /^\/\S{0,199}$/,
+  url: /^(https?:\/\/|mailto:)\S{1,200}$/,
+};
+
+/**
+ * The properties of each event and the values they may have, which the
+ * server checks events against, so that nobody can fill the stats with
+ * made-up ones.
+ */
+const eventProperties: { [E in AnalyticsEventName]: { [K in keyof AnalyticsEvents[E]]-?: PropertyRule<AnalyticsEvents[E][K]> } } = {
+  appstore_click: { placement: ["hero"] },
+  github_click: { placement: ["hero", "footer"] },
+  discord_click: { placement: ["footer", "thanks"] },
+  pricing_click: { tier: Object.keys(tiers) as TierId[], billing: tiers.pro.products },
+  billing_toggle: { billing: tiers.pro.products },
+  storefront_change: { storefront: Object.keys(storefronts) as StorefrontId[] },
+  language_change: { from: Object.keys(languages) as Language[], to: Object.keys(languages) as Language[] },
+  faq_open: { id: en.faq.items.map(item => item.id) },
+  english_version_click: { path: "path" },
+  outbound_click: { url: "url" },
+  support_ticket: { topic: ticketTopics },
+  newsletter_signup: { placement: ["home", "thanks", "newsletter"] },
+};
+
+export function isAnalyticsEventName(value: unknown): value is AnalyticsEventName {
+  return typeof value === "string" && Object.hasOwn(eventProperties, value);
+}
+
+/** Whether every one of `properties` is a property of `event`, with a value it may have. */
+export function isEventProperties(event: AnalyticsEventName, properties: Record<string, unknown>): boolean {
+  const rules: Record<string, PropertyRule<unknown>> = eventProperties[event];
+  return Object.entries(properties).every(([key, value]) => {
+    if (!Object.hasOwn(rules, key)) return false;
+    const rule = rules[key]!;
+    if (typeof rule === "string") return typeof value === "string" && STRING_FORMATS[rule].test(value);
+    return (rule as readonly unknown[]).includes(value);
+  });
+}
+
+/**
+ * Body of a `POST /api/event` request. Besides the catalog's events, the
+ * first-party provider sends a `pageview` when a page loads.
+ */
+export interface EventPayload {
+  event: AnalyticsEventName | "pageview";
+  path: string;
+  /** `document.referrer`, for page views. */
+  referrer?: string;
+  properties?: AnalyticsProperties;
+}
@@ -0,0 +1,112 @@
+import type { AnalyticsProperties, EventPayload } from "./events";
+
+declare global {
+  interface Window {
+    umami?: {
+      track: (eventName: string, data?: AnalyticsProperties) => void;
+    };
+    dataLayer?: unknown[];
+    gtag?: (...args: unknown[]) => void;
+  }
+}
+
+/** A destination for analytics events, such as Umami or Google tag. */
+export interface AnalyticsProvider {
+  name: string;
+  /** Loads the provider; events are queued until it resolves. */
+  load(): Promise<void>;
+  track(event: string, properties: AnalyticsProperties): void;
+}
+
+function loadScript(src: string, attributes: Record<string, string> = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+    for (const [name, value] of Object.entries(attributes)) {
+      script.setAttribute(name, value);
+    }
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Failed to load ${src}`));
+    document.head.appendChild(script);
+  });
+}
+
+/** Drops `undefined` properties, which providers would otherwise report as a value. */
+function definedProperties(properties: AnalyticsProperties): AnalyticsProperties {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+}
+
+/** Self-hosted Umami. The script also records page views by itself. */
+export function umamiProvider({ src, websiteId }: { src: string; websiteId: string }): AnalyticsProvider {
+  return {
+    name: "umami",
+    load: () => loadScript(src, { "data-website-id": websiteId }),
+    track(event, properties) {
+      window.umami?.track(event, definedProperties(properties));
+    },
+  };
+}
+
+/** Google tag, for Google Ads conversions. */
+export function gtagProvider({ id }: { id: string }): AnalyticsProvider {
+  return {
+    name: "gtag",
+    async load() {
+      window.dataLayer = window.dataLayer || [];
+      window.gtag = function gtag() {
+        // gtag.js expects the `arguments` object itself, not an array.
+        window.dataLayer!.push(arguments);
+      };
+      window.gtag("js", new Date());
+      window.gtag("config", id);
+      await loadScript(`https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(id)}`);
+    },
+    track(event, properties) {
+      window.gtag?.("event", event, definedProperties(properties));
+    },
+  };
+}
+
+/**
+ * Our own `/api/event` endpoint (see `server.ts`). Like Umami, it records a
+ * page view by itself when it loads. Requests carry no cookies and the
+ * server keeps no IP addresses.
+ */
+export function firstPartyProvider({ endpoint }: { endpoint: string }): AnalyticsProvider {
+  const send = (payload: EventPayload) => {
+    const body = JSON.stringify(payload);
+    // Beacons survive navigation, which most clicks we count cause.
+    if (!navigator.sendBeacon?.(endpoint, body)) {
+      fetch(endpoint, { method: "POST", body, keepalive: true }).catch(() => {});
+    }
+  };
+
+  return {
+    name: "first-party",
+    load: async () => send({ event: "pageview", path: location.pathname, referrer: document.referrer || undefined }),
+    track(event, properties) {
+      send({ event: event as EventPayload["event"], path: location.pathname, properties: definedProperties(properties) });
+    },
+  };
+}
+
+/** Logs events to the console, for the dev server. */
+export function consoleProvider(): AnalyticsProvider {
+  return {
+    name: "console",
+    load: async () => {},
+    track(event, properties) {
+      console.debug(`[analytics] ${event}`, definedProperties(properties));
+    },
+  };
+}
+
+/** Discards events. */
+export function noopProvider(): AnalyticsProvider {
+  return {
+    name: "noop",
+    load: async () => {},
+    track() {},
+  };
+}
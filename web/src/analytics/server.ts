@@ -0,0 +1,121 @@
+import type { BunRequest, Server } from "bun";
+import { authorized, unauthorized } from "../auth";
+import type { RateLimiter } from "../rate-limit";
+import { type EventPayload, isAnalyticsEventName, isEventProperties } from "./events";
+import { renderStatsPage } from "./StatsPage";
+import type { StatsStore } from "./store";
+
+const MAX_BODY_BYTES = 4096;
+const MAX_DETAIL_LENGTH = 500;
+const BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|preview/i;
+
+/**
+ * The payload's event, page and properties, or `undefined` if it isn't one
+ * the site sends: its page is one of `sitePaths`, page views have no
+ * properties, and other events only the ones their catalog entry has (see
+ * `events.ts`).
+ */
+function parsePayload(body: string, sitePaths: ReadonlySet<string>): EventPayload | undefined {
+  let payload: Partial<EventPayload>;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  if (typeof payload !== "object" || payload === null) return undefined;
+
+  const { event, path, referrer, properties = {} } = payload;
+  if (event !== "pageview" && !isAnalyticsEventName(event)) return undefined;
+  if (typeof path !== "string" || !sitePaths.has(path)) return undefined;
+  if (referrer !== undefined && typeof referrer !== "string") return undefined;
+  if (typeof properties !== "object" || properties === null || Array.isArray(properties)) return undefined;
+  if (event === "pageview" ? Object.keys(properties).length > 0 : !isEventProperties(event, properties)) {
+    return undefined;
+  }
+  return { event, path, referrer, properties };
+}
+
+/** Host name of `referrer`, unless it is this site. */
+function externalReferrer(referrer: string | undefined, req: Request): string | undefined {
+  if (!referrer) return undefined;
+  try {
+    const { hostname } = new URL(referrer);
+    return hostname && hostname !== new URL(req.url).hostname ? hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `POST /api/event`, which the first-party provider sends events to. The
+ * visitor's IP address and user agent are only used to hash them into the
+ * day's visitor ID; bots are ignored. Only events on `sitePaths`, the
+ * site's pages in every language, are counted, and each IP address may send
+ * as many events as `limiter` allows.
+ */
+export function eventRoute(store: StatsStore, limiter: RateLimiter, sitePaths: ReadonlySet<string>) {
+  return async (req: BunRequest, server: Server<undefined>) => {
+    if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+    const limit = limiter.take(server.requestIP(req)?.address ?? "");
+    if (!limit.allowed) {
+      return new Response(null, { status: 429, headers: { "Retry-After": String(limit.retryAfter) } });
+    }
+    const body = await req.text();
+    if (body.length > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+
+    const payload = parsePayload(body, sitePaths);
+    if (!payload) {
+      return new Response(null, { status: 400 });
+    }
+
+    const userAgent = req.headers.get("user-agent") ?? "";
+    if (!userAgent || BOT_PATTERN.test(userAgent)) {
+      return new Response(null, { status: 204 });
+    }
+
+    const detail =
+      payload.event === "pageview"
+        ? payload.path
+        : JSON.stringify(Object.fromEntries(Object.entries(payload.properties ?? {}).sort(([a], [b]) => a.localeCompare(b))));
+    if (detail.length > MAX_DETAIL_LENGTH) {
+      return new Response(null, { status: 400 });
+    }
+
+    store.record({
+      event: payload.event,
+      detail,
+      referrer: payload.event === "pageview" ? externalReferrer(payload.referrer, req) : undefined,
+      ip: server.requestIP(req)?.address ?? "",
+      userAgent,
+    });
+    return new Response(null, { status: 204 });
+  };
+}
+
+/**
+ * `GET /admin/stats`, the first-party analytics dashboard, behind HTTP Basic
+ * authentication. Without a password configured the page doesn't exist.
+ */
+export function statsRoute(store: StatsStore, password: string | undefined) {
+  return (req: BunRequest) => {
+    if (!password) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (!authorized(req, password)) {
+      return unauthorized("VVTerm stats");
+    }
+
+    const days = Math.min(Math.max(Number(new URL(req.url).searchParams.get("days")) || 30, 1), 365);
+    return new Response(`<!doctype html>${renderStatsPage(store, days)}`, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-Robots-Tag": "noindex",
+      },
+    });
+  };
+}
@@ -0,0 +1,202 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import path from "path";
+
+/** Events that take the visitor to the App Store, counted as conversions. */
+export const CONVERSION_EVENTS = ["appstore_click", "pricing_click"];
+
+/** An event as received by `/api/event`, before it is aggregated. */
+export interface Hit {
+  event: string;
+  /** The page path for page views, the event's properties as JSON otherwise. */
+  detail: string;
+  /** Host name of an external referrer. */
+  referrer?: string;
+  /** Only hashed, never stored. */
+  ip: string;
+  userAgent: string;
+}
+
+export interface DailyStats {
+  /** UTC date, `YYYY-MM-DD`. */
+  day: string;
+  pageviews: number;
+  /** Visitors who viewed a page. */
+  visitors: number;
+  appStoreClicks: number;
+  /** Visitors who viewed a page and went on to the App Store. */
+  converted: number;
+}
+
+export interface Count {
+  name: string;
+  count: number;
+}
+
+export interface StatsStore {
+  record(hit: Hit): void;
+  /** Totals for each of the last `days` days, oldest first. */
+  daily(days: number): DailyStats[];
+  topReferrers(days: number, limit: number): Count[];
+  topPages(days: number, limit: number): Count[];
+  /** Catalog events by name and properties. */
+  events(days: number): (Count & { detail: string })[];
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS salts (day TEXT PRIMARY KEY, salt TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    day TEXT NOT NULL, event TEXT NOT NULL, detail TEXT NOT NULL, count INTEGER NOT NULL,
+    PRIMARY KEY (day, event, detail)
+  );
+  CREATE TABLE IF NOT EXISTS referrers (
+    day TEXT NOT NULL, referrer TEXT NOT NULL, count INTEGER NOT NULL,
+    PRIMARY KEY (day, referrer)
+  );
+  CREATE TABLE IF NOT EXISTS visitors (
+    day TEXT NOT NULL, visitor TEXT NOT NULL, viewed INTEGER NOT NULL, converted INTEGER NOT NULL,
+    PRIMARY KEY (day, visitor)
+  );
+  CREATE TABLE IF NOT EXISTS visitor_totals (day TEXT PRIMARY KEY, visitors INTEGER NOT NULL, converted INTEGER NOT NULL);
+`;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Opens (creating if needed) the SQLite database of first-party analytics.
+ *
+ * Only aggregates are kept: counts per day and event, page or referrer.
+ * Visitors are told apart by a hash of their IP address and user agent with
+ * a salt that changes every day. When the day turns, the previous days'
+ * visitor hashes are reduced to totals and their salts are deleted, so
+ * visitors can't be recognised across days, nor their IPs recovered.
+ */
+export function openStatsStore(filename: string): StatsStore {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  let salt: { day: string; value: string } | undefined;
+
+  const rotate = db.transaction((day: string) => {
+    db.run(
+      `INSERT OR REPLACE INTO visitor_totals
+         SELECT day, SUM(viewed), SUM(viewed AND converted) FROM visitors WHERE day < ? GROUP BY day`,
+      [day],
+    );
+    db.run("DELETE FROM visitors WHERE day < ?", [day]);
+    db.run("DELETE FROM salts WHERE day < ?", [day]);
+    db.run("INSERT OR IGNORE INTO salts (day, salt) VALUES (?, ?)", [day, crypto.randomUUID()]);
+  });
+
+  function saltFor(day: string): string {
+    if (salt?.day !== day) {
+      rotate(day);
+      const row = db.query<{ salt: string }, [string]>("SELECT salt FROM salts WHERE day = ?").get(day)!;
+      salt = { day, value: row.salt };
+    }
+    return salt.value;
+  }
+
+  const countEvent = db.query(
+    `INSERT INTO events (day, event, detail, count) VALUES ($day, $event, $detail, 1)
+     ON CONFLICT DO UPDATE SET count = count + 1`,
+  );
+  const countReferrer = db.query(
+    `INSERT INTO referrers (day, referrer, count) VALUES ($day, $referrer, 1)
+     ON CONFLICT DO UPDATE SET count = count + 1`,
+  );
+  const markVisitor = db.query(
+    `INSERT INTO visitors (day, visitor, viewed, converted) VALUES ($day, $visitor, $viewed, $converted)
+     ON CONFLICT DO UPDATE SET viewed = MAX(viewed, excluded.viewed), converted = MAX(converted, excluded.converted)`,
+  );
+
+  const record = db.transaction((hit: Hit) => {
+    const day = today();
+    const visitor = new Bun.CryptoHasher("sha256")
+      .update(`${saltFor(day)}\n${hit.ip}\n${hit.userAgent}`)
+      .digest("hex")
+      .slice(0, 32);
+
+    countEvent.run({ day, event: hit.event, detail: hit.detail });
+    if (hit.referrer) {
+      countReferrer.run({ day, referrer: hit.referrer });
+    }
+    markVisitor.run({
+      day,
+      visitor,
+      viewed: Number(hit.event === "pageview"),
+      converted: Number(CONVERSION_EVENTS.includes(hit.event)),
+    });
+  });
+
+  function daily(days: number): DailyStats[] {
+    const since = daysAgo(days - 1);
+    const stats = new Map<string, DailyStats>();
+    for (let i = days - 1; i >= 0; i--) {
+      const day = daysAgo(i);
+      stats.set(day, { day, pageviews: 0, visitors: 0, appStoreClicks: 0, converted: 0 });
+    }
+
+    const conversions = CONVERSION_EVENTS.map(() => "?").join(", ");
+    const eventRows = db
+      .query<{ day: string; pageviews: number; clicks: number }, string[]>(
+        `SELECT day,
+           SUM(CASE WHEN event = 'pageview' THEN count ELSE 0 END) AS pageviews,
+           SUM(CASE WHEN event IN (${conversions}) THEN count ELSE 0 END) AS clicks
+         FROM events WHERE day >= ? GROUP BY day`,
+      )
+      .all(...CONVERSION_EVENTS, since);
+    for (const row of eventRows) {
+      const entry = stats.get(row.day);
+      if (entry) Object.assign(entry, { pageviews: row.pageviews, appStoreClicks: row.clicks });
+    }
+
+    const visitorRows = db
+      .query<{ day: string; visitors: number; converted: number }, [string, string]>(
+        `SELECT day, visitors, converted FROM visitor_totals WHERE day >= ?
+         UNION ALL
+         SELECT day, SUM(viewed), SUM(viewed AND converted) FROM visitors WHERE day >= ? GROUP BY day`,
+      )
+      .all(since, since);
+    for (const row of visitorRows) {
+      const entry = stats.get(row.day);
+      if (entry) Object.assign(entry, { visitors: row.visitors, converted: row.converted });
+    }
+
+    return [...stats.values()];
+  }
+
+  return {
+    record,
+    daily,
+    topReferrers: (days, limit) =>
+      db
+        .query<Count, [string, number]>(
+          `SELECT referrer AS name, SUM(count) AS count FROM referrers WHERE day >= ?
+           GROUP BY referrer ORDER BY count DESC LIMIT ?`,
+        )
+        .all(daysAgo(days - 1), limit),
+    topPages: (days, limit) =>
+      db
+        .query<Count, [string, number]>(
+          `SELECT detail AS name, SUM(count) AS count FROM events WHERE event = 'pageview' AND day >= ?
+           GROUP BY detail ORDER BY count DESC LIMIT ?`,
+        )
+        .all(daysAgo(days - 1), limit),
+    events: days =>
+      db
+        .query<Count & { detail: string }, [string]>(
+          `SELECT event AS name, detail, SUM(count) AS count FROM events WHERE event != 'pageview' AND day >= ?
+           GROUP BY event, detail ORDER BY event, count DESC`,
+        )
+        .all(daysAgo(days - 1)),
+  };
+}
@@ -0,0 +1,140 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { products } from "../pricing";
+import type { AppStoreStore, StoredNotification } from "./store";
+
+const STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, sans-serif; background: #000; color: #f5f5f7; margin: 0; padding: 32px; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  h2 { font-size: 18px; margin: 32px 0 8px; }
+  a { color: #2997ff; }
+  form { margin: 16px 0; }
+  input { background: #1d1d1f; color: #f5f5f7; border: 1px solid #333; border-radius: 6px; padding: 4px 8px; font: inherit; }
+  table { border-collapse: collapse; min-width: 480px; }
+  th, td { text-align: left; padding: 4px 16px 4px 0; border-bottom: 1px solid #333; vertical-align: top; }
+  .muted { color: #86868b; }
+`;
+
+const ADMIN_PATH = "/admin/appstore";
+
+function productName(productId: string | null | undefined): string {
+  const key = Object.entries(products).find(([, product]) => product.productId === productId)?.[0];
+  return key ?? productId ?? "–";
+}
+
+const date = (value: number | Date | undefined) =>
+  value === undefined ? "–" : new Date(value).toISOString().replace("T", " ").slice(0, 19);
+
+function History({ notifications }: { notifications: StoredNotification[] }) {
+  if (notifications.length === 0) return <p className="muted">No notifications for this transaction.</p>;
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>Signed</th>
+          <th>Notification</th>
+          <th>Transaction</th>
+          <th>Product</th>
+          <th>Purchased</th>
+          <th>Expires</th>
+          <th>Revoked</th>
+          <th>Auto-renew</th>
+          <th>Environment</th>
+        </tr>
+      </thead>
+      <tbody>
+        {notifications.map(({ notificationUUID, notificationType, subtype, signedDate, environment, transaction, renewal }) => (
+          <tr key={notificationUUID}>
+            <td>{date(signedDate)}</td>
+            <td>
+              {notificationType}
+              {subtype && <span className="muted"> {subtype}</span>}
+            </td>
+            <td>{transaction?.transactionId ?? "–"}</td>
+            <td>{productName(transaction?.productId)}</td>
+            <td>{date(transaction?.purchaseDate)}</td>
+            <td>{date(transaction?.expiresDate)}</td>
+            <td>
+              {date(transaction?.revocationDate)}
+              {transaction?.revocationReason !== undefined && <span className="muted"> reason {transaction.revocationReason}</span>}
+            </td>
+            <td>
+              {renewal?.autoRenewStatus === undefined ? "–" : renewal.autoRenewStatus === 1 ? "on" : "off"}
+              {renewal?.autoRenewProductId && renewal.autoRenewProductId !== transaction?.productId && (
+                <span className="muted"> to {productName(renewal.autoRenewProductId)}</span>
+              )}
+            </td>
+            <td>{environment ?? "–"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * The `/admin/appstore` view of App Store Server Notifications: the
+ * purchases with the latest notifications, or with `originalTransactionId`,
+ * the history of one purchase. Rendered on the server as static markup.
+ */
+export function renderAppStorePage(store: AppStoreStore, originalTransactionId?: string): string {
+  return renderToStaticMarkup(
+    <html lang="en">
+      <head>
+        <meta charSet="UTF-8" />
+        <meta name="robots" content="noindex" />
+        <title>VVTerm App Store notifications</title>
+        <style>{STYLE}</style>
+      </head>
+      <body>
+        <h1>App Store notifications</h1>
+        <form method="get" action={ADMIN_PATH}>
+          <input name="id" placeholder="Original transaction ID" defaultValue={originalTransactionId} />{" "}
+          <button type="submit">Show history</button>
+        </form>
+
+        {originalTransactionId ? (
+          <>
+            <p>
+              <a href={ADMIN_PATH}>All purchases</a>
+            </p>
+            <h2>Original transaction {originalTransactionId}</h2>
+            <History notifications={store.history(originalTransactionId)} />
+          </>
+        ) : (
+          <>
+            <h2>Latest purchases</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Original transaction</th>
+                  <th>Product</th>
+                  <th>Latest notification</th>
+                  <th>Signed</th>
+                  <th>Notifications</th>
+                  <th>Environment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {store.recent(100).map(purchase => (
+                  <tr key={purchase.originalTransactionId}>
+                    <td>
+                      <a href={`${ADMIN_PATH}?id=${encodeURIComponent(purchase.originalTransactionId)}`}>
+                        {purchase.originalTransactionId}
+                      </a>
+                    </td>
+                    <td>{productName(purchase.productId)}</td>
+                    <td>{purchase.lastType}</td>
+                    <td>{date(purchase.lastSignedDate)}</td>
+                    <td>{purchase.count}</td>
+                    <td>{purchase.environment ?? "–"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </body>
+    </html>,
+  );
+}
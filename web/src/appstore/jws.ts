@@ -0,0 +1,92 @@
+import { X509Certificate, verify } from "crypto";
+import { readFileSync } from "fs";
+
+// Marker extensions Apple puts in the certificates that sign App Store data:
+// the leaf (`1.2.840.113635.100.6.11.1`) and the intermediate WWDR CA
+// (`1.2.840.113635.100.6.2.1`), DER-encoded.
+const LEAF_MARKER = Buffer.from("060a2a864886f76364060b01", "hex");
+const INTERMEDIATE_MARKER = Buffer.from("060a2a864886f76364060201", "hex");
+
+/**
+ * Reads certificates from PEM files (which may hold several) or DER files,
+ * such as Apple Root CA - G3 from https://www.apple.com/certificateauthority/.
+ */
+export function loadCertificates(paths: string[]): X509Certificate[] {
+  return paths.flatMap(file => {
+    const content = readFileSync(file);
+    const pem = content.toString("latin1");
+    if (!pem.includes("-----BEGIN CERTIFICATE-----")) return [new X509Certificate(content)];
+    return (pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? []).map(
+      block => new X509Certificate(block),
+    );
+  });
+}
+
+function base64UrlJson(part: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString());
+  } catch {
+    throw new Error("Malformed JWS");
+  }
+}
+
+/**
+ * Verifies a JWS signed by the App Store, such as a notification's
+ * `signedPayload` or its `signedTransactionInfo`, and returns its payload.
+ *
+ * The JWS must be signed with ES256 by the first certificate of its `x5c`
+ * header, each certificate of which must be signed by the next, with the
+ * last signed by (or being) one of `roots`. The leaf and intermediate must
+ * carry Apple's marker extensions, and all must be valid at `at`. To test
+ * locally, make a root, an intermediate with the intermediate marker and a
+ * leaf with the leaf marker (`1.2.840.113635.100.6.11.1 = ASN1:NULL` in an
+ * OpenSSL extensions section), and trust that root.
+ */
+export function verifyAppStoreJws(jws: string, roots: X509Certificate[], at = new Date()): unknown {
+  const parts = jws.split(".");
+  if (parts.length !== 3) throw new Error("Malformed JWS");
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+
+  const header = base64UrlJson(encodedHeader) as { alg?: unknown; x5c?: unknown };
+  if (header.alg !== "ES256") throw new Error(`Unsupported algorithm ${String(header.alg)}`);
+  if (!Array.isArray(header.x5c) || header.x5c.length < 2 || !header.x5c.every(cert => typeof cert === "string")) {
+    throw new Error("Missing certificate chain");
+  }
+
+  let chain: X509Certificate[];
+  try {
+    chain = (header.x5c as string[]).map(cert => new X509Certificate(Buffer.from(cert, "base64")));
+  } catch {
+    throw new Error("Malformed certificate in chain");
+  }
+  const [leaf, intermediate] = chain as [X509Certificate, X509Certificate];
+
+  for (const [index, cert] of chain.entries()) {
+    if (at < new Date(cert.validFrom) || at > new Date(cert.validTo)) {
+      throw new Error(`Certificate ${index} of the chain isn't valid at ${at.toISOString()}`);
+    }
+    const issuer = chain[index + 1];
+    if (issuer && (!issuer.ca || !cert.checkIssued(issuer) || !cert.verify(issuer.publicKey))) {
+      throw new Error(`Certificate ${index} of the chain isn't signed by the next`);
+    }
+  }
+  const last = chain.at(-1)!;
+  const trusted = roots.some(
+    root => root.raw.equals(last.raw) || (root.ca && last.checkIssued(root) && last.verify(root.publicKey)),
+  );
+  if (!trusted) throw new Error("Certificate chain doesn't end at a trusted root");
+  if (!leaf.raw.includes(LEAF_MARKER) || !intermediate.raw.includes(INTERMEDIATE_MARKER)) {
+    throw new Error("Certificates lack the App Store marker extensions");
+  }
+
+  const signature = Buffer.from(encodedSignature, "base64url");
+  const signed = verify(
+    "sha256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: leaf.publicKey, dsaEncoding: "ieee-p1363" },
+    signature,
+  );
+  if (!signed) throw new Error("Invalid signature");
+
+  return base64UrlJson(encodedPayload);
+}
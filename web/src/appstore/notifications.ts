@@ -0,0 +1,102 @@
+import type { X509Certificate } from "crypto";
+import { verifyAppStoreJws } from "./jws";
+
+/**
+ * The fields of a signed transaction the server reads; the whole decoded
+ * payload is stored. See Apple's `JWSTransactionDecodedPayload`.
+ */
+export interface TransactionInfo {
+  transactionId: string;
+  originalTransactionId: string;
+  productId: string;
+  /** Dates are milliseconds since the epoch. */
+  purchaseDate: number;
+  expiresDate?: number;
+  revocationDate?: number;
+  /** `0` for a refund for another reason, `1` for a refund over an issue with the app. */
+  revocationReason?: number;
+  type: string;
+  environment: string;
+  /** In milliunits of `currency`. */
+  price?: number;
+  currency?: string;
+}
+
+/** The fields of signed renewal info the server reads. See Apple's `JWSRenewalInfoDecodedPayload`. */
+export interface RenewalInfo {
+  originalTransactionId: string;
+  autoRenewProductId?: string;
+  /** `1` if the subscription renews, `0` if the user turned renewal off. */
+  autoRenewStatus?: number;
+  expirationIntent?: number;
+  isInBillingRetryPeriod?: boolean;
+  gracePeriodExpiresDate?: number;
+  renewalDate?: number;
+}
+
+/** A verified App Store Server Notification (version 2), with its signed parts decoded. */
+export interface AppStoreNotification {
+  notificationUUID: string;
+  /** Such as `SUBSCRIBED`, `DID_RENEW`, `EXPIRED` or `REFUND`. */
+  notificationType: string;
+  /** Such as `INITIAL_BUY` or `AUTO_RENEW_DISABLED`. */
+  subtype?: string;
+  signedDate: number;
+  environment?: string;
+  transaction?: TransactionInfo & Record<string, unknown>;
+  renewal?: RenewalInfo & Record<string, unknown>;
+}
+
+export interface NotificationOptions {
+  /** Trusted root certificates: Apple Root CA - G3, or a local root to test with. */
+  roots: X509Certificate[];
+  /** The app's bundle ID; notifications for other apps are rejected. */
+  bundleId: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+/**
+ * Verifies and decodes the `signedPayload` of a notification, and the
+ * transaction and renewal info signed inside it. Throws if a signature or
+ * the certificate chain is invalid, or the notification is for another app.
+ * Summary notifications, which have no `data`, have no transaction.
+ */
+export function decodeNotification(signedPayload: string, { roots, bundleId }: NotificationOptions): AppStoreNotification {
+  const payload = verifyAppStoreJws(signedPayload, roots);
+  if (!isObject(payload)) throw new Error("Notification payload isn't an object");
+
+  const { notificationUUID, notificationType, subtype, signedDate, data } = payload;
+  if (typeof notificationUUID !== "string" || typeof notificationType !== "string" || typeof signedDate !== "number") {
+    throw new Error("Notification lacks its UUID, type or date");
+  }
+
+  const notification: AppStoreNotification = {
+    notificationUUID,
+    notificationType,
+    subtype: typeof subtype === "string" ? subtype : undefined,
+    signedDate,
+  };
+  if (!isObject(data)) return notification;
+
+  if (data.bundleId !== bundleId) {
+    throw new Error(`Notification is for ${String(data.bundleId)}, not ${bundleId}`);
+  }
+  notification.environment = typeof data.environment === "string" ? data.environment : undefined;
+
+  if (typeof data.signedTransactionInfo === "string") {
+    const transaction = verifyAppStoreJws(data.signedTransactionInfo, roots);
+    if (!isObject(transaction) || typeof transaction.originalTransactionId !== "string") {
+      throw new Error("Transaction info lacks its original transaction ID");
+    }
+    notification.transaction = transaction as AppStoreNotification["transaction"];
+  }
+  if (typeof data.signedRenewalInfo === "string") {
+    const renewal = verifyAppStoreJws(data.signedRenewalInfo, roots);
+    if (!isObject(renewal) || typeof renewal.originalTransactionId !== "string") {
+      throw new Error("Renewal info lacks its original transaction ID");
+    }
+    notification.renewal = renewal as AppStoreNotification["renewal"];
+  }
+  return notification;
+}
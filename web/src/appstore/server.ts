@@ -0,0 +1,74 @@
+import type { BunRequest } from "bun";
+import { authorized, unauthorized } from "../auth";
+import { renderAppStorePage } from "./AppStorePage";
+import { type NotificationOptions, decodeNotification } from "./notifications";
+import type { AppStoreStore } from "./store";
+
+// Notifications carry three signed payloads, each with its certificate chain.
+const MAX_BODY_BYTES = 256 * 1024;
+
+/**
+ * `POST /api/appstore/notifications`, the URL of App Store Server
+ * Notifications (version 2) in App Store Connect. Notifications are
+ * verified, decoded and stored once; any that verify are acknowledged,
+ * including ones seen before, so Apple stops retrying them. Without trusted
+ * root certificates configured the route doesn't exist.
+ */
+export function notificationRoute(store: AppStoreStore, options: NotificationOptions) {
+  return async (req: BunRequest) => {
+    if (options.roots.length === 0) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+    const text = await req.text();
+    if (text.length > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+
+    let signedPayload: unknown;
+    try {
+      ({ signedPayload } = JSON.parse(text));
+    } catch {
+      return new Response(null, { status: 400 });
+    }
+    if (typeof signedPayload !== "string") {
+      return new Response(null, { status: 400 });
+    }
+
+    try {
+      const notification = decodeNotification(signedPayload, options);
+      store.record(notification);
+    } catch (error) {
+      console.warn("Rejected App Store notification:", (error as Error).message);
+      return new Response(null, { status: 400 });
+    }
+    return new Response(null, { status: 200 });
+  };
+}
+
+/**
+ * `GET /admin/appstore`, the stored notifications, per purchase with
+ * `?id=<originalTransactionId>`, behind HTTP Basic authentication. Without a
+ * password configured the page doesn't exist.
+ */
+export function appStoreAdminRoute(store: AppStoreStore, password: string | undefined) {
+  return (req: BunRequest) => {
+    if (!password) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (!authorized(req, password)) {
+      return unauthorized("VVTerm App Store");
+    }
+
+    const id = new URL(req.url).searchParams.get("id")?.trim() || undefined;
+    return new Response(`<!doctype html>${renderAppStorePage(store, id)}`, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-Robots-Tag": "noindex",
+      },
+    });
+  };
+}
@@ -0,0 +1,127 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import path from "path";
+import type { AppStoreNotification } from "./notifications";
+
+/** A stored notification, as the admin view lists it. */
+export interface StoredNotification extends AppStoreNotification {
+  receivedAt: Date;
+}
+
+/** The latest state of a purchase, by its original transaction. */
+export interface PurchaseSummary {
+  originalTransactionId: string;
+  productId: string | null;
+  lastType: string;
+  lastSignedDate: Date;
+  environment: string | null;
+  count: number;
+}
+
+export interface AppStoreStore {
+  /** Stores a notification, unless one with its UUID was stored before; returns whether it was new. */
+  record(notification: AppStoreNotification): boolean;
+  /** A purchase's notifications, oldest first. */
+  history(originalTransactionId: string): StoredNotification[];
+  /** Purchases with the most recent notifications. */
+  recent(limit: number): PurchaseSummary[];
+}
+
+interface NotificationRow {
+  uuid: string;
+  type: string;
+  subtype: string | null;
+  signed_date: number;
+  received_at: number;
+  environment: string | null;
+  transaction_info: string | null;
+  renewal_info: string | null;
+}
+
+/**
+ * Opens (creating if needed) the SQLite database of App Store Server
+ * Notifications. Apple sends a notification again until it is acknowledged,
+ * so they are keyed by their UUID and stored once.
+ */
+export function openAppStoreStore(filename: string): AppStoreStore {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      uuid TEXT PRIMARY KEY, type TEXT NOT NULL, subtype TEXT, signed_date INTEGER NOT NULL,
+      received_at INTEGER NOT NULL, environment TEXT, original_transaction_id TEXT, transaction_id TEXT,
+      product_id TEXT, transaction_info TEXT, renewal_info TEXT
+    );
+    CREATE INDEX IF NOT EXISTS notifications_purchase ON notifications (original_transaction_id, signed_date);
+  `);
+
+  const insert = db.query(
+    `INSERT INTO notifications (uuid, type, subtype, signed_date, received_at, environment, original_transaction_id,
+       transaction_id, product_id, transaction_info, renewal_info)
+     VALUES ($uuid, $type, $subtype, $signedDate, $receivedAt, $environment, $originalTransactionId,
+       $transactionId, $productId, $transactionInfo, $renewalInfo)
+     ON CONFLICT (uuid) DO NOTHING`,
+  );
+  const selectHistory = db.query<NotificationRow, { originalTransactionId: string }>(
+    "SELECT * FROM notifications WHERE original_transaction_id = $originalTransactionId ORDER BY signed_date",
+  );
+  const selectRecent = db.query<
+    {
+      original_transaction_id: string;
+      product_id: string | null;
+      type: string;
+      signed_date: number;
+      environment: string | null;
+      count: number;
+    },
+    { limit: number }
+  >(
+    // SQLite takes the other columns from the row with the max().
+    `SELECT original_transaction_id, product_id, type, max(signed_date) AS signed_date, environment, count(*) AS count
+     FROM notifications WHERE original_transaction_id IS NOT NULL
+     GROUP BY original_transaction_id ORDER BY signed_date DESC LIMIT $limit`,
+  );
+
+  return {
+    record(notification) {
+      const { transaction, renewal } = notification;
+      const result = insert.run({
+        uuid: notification.notificationUUID,
+        type: notification.notificationType,
+        subtype: notification.subtype ?? null,
+        signedDate: notification.signedDate,
+        receivedAt: Date.now(),
+        environment: notification.environment ?? null,
+        originalTransactionId: transaction?.originalTransactionId ?? renewal?.originalTransactionId ?? null,
+        transactionId: transaction?.transactionId ?? null,
+        productId: transaction?.productId ?? renewal?.autoRenewProductId ?? null,
+        transactionInfo: transaction ? JSON.stringify(transaction) : null,
+        renewalInfo: renewal ? JSON.stringify(renewal) : null,
+      });
+      return result.changes > 0;
+    },
+    history(originalTransactionId) {
+      return selectHistory.all({ originalTransactionId }).map(row => ({
+        notificationUUID: row.uuid,
+        notificationType: row.type,
+        subtype: row.subtype ?? undefined,
+        signedDate: row.signed_date,
+        environment: row.environment ?? undefined,
+        transaction: row.transaction_info ? JSON.parse(row.transaction_info) : undefined,
+        renewal: row.renewal_info ? JSON.parse(row.renewal_info) : undefined,
+        receivedAt: new Date(row.received_at),
+      }));
+    },
+    recent(limit) {
+      return selectRecent.all({ limit }).map(row => ({
+        originalTransactionId: row.original_transaction_id,
+        productId: row.product_id,
+        lastType: row.type,
+        lastSignedDate: new Date(row.signed_date),
+        environment: row.environment,
+        count: row.count,
+      }));
+    },
+  };
+}
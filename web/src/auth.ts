@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "crypto";
+
+function digest(value: string): Buffer {
+  return Buffer.from(new Bun.CryptoHasher("sha256").update(value).digest());
+}
+
+/** Whether the request carries HTTP Basic credentials with `password` (any user name). */
+export function authorized(req: Request, password: string): boolean {
+  const [scheme, encoded] = (req.headers.get("authorization") ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "basic" || !encoded) return false;
+
+  const credentials = Buffer.from(encoded, "base64").toString();
+  const given = credentials.slice(credentials.indexOf(":") + 1);
+  return timingSafeEqual(digest(given), digest(password));
+}
+
+/** The response asking for the password of an admin page. */
+export function unauthorized(realm: string): Response {
+  return new Response("Unauthorized", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${realm}", charset="UTF-8"` },
+  });
+}
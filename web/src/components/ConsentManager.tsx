@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import {
+  type ConsentChoices,
+  consentCategories,
+  onOpenConsentSettings,
+  readConsent,
+  saveConsent,
+} from "../analytics/consent";
+import { useLanguage } from "../i18n/LanguageContext";
+import { localizedPath } from "../i18n/i18n";
+import { InlineText } from "./RichText";
+
+const ALL: ConsentChoices = { analytics: true, advertising: true };
+const NONE: ConsentChoices = { analytics: false, advertising: false };
+
+const buttonClass =
+  "py-2.5 px-5 text-sm font-medium rounded-full bg-white/10 text-white hover:bg-white/15 transition-colors duration-200";
+
+/**
+ * The cookie banner, shown until the visitor has chosen for the current
+ * consent version, and the settings dialog, opened from the banner or the
+ * footer's "Cookie settings" link. Rendered by `mount()` on every page,
+ * next to the page itself.
+ */
+export default function ConsentManager() {
+  const { language, t, tObject } = useLanguage();
+  const [consent, setConsent] = useState(readConsent);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [choices, setChoices] = useState<ConsentChoices>(NONE);
+  const categories = tObject("consent.categories");
+
+  const openSettings = () => {
+    const { analytics, advertising } = readConsent() ?? NONE;
+    setChoices({ analytics, advertising });
+    setSettingsOpen(true);
+  };
+
+  const choose = (chosen: ConsentChoices) => {
+    setConsent(saveConsent(chosen));
+    setSettingsOpen(false);
+  };
+
+  useEffect(() => onOpenConsentSettings(openSettings), []);
+
+  useEffect(() => {
+    if (!settingsOpen) return;
+    const closeOnEscape = (e: KeyboardEvent) => e.key === "Escape" && setSettingsOpen(false);
+    window.addEventListener("keydown", closeOnEscape);
+    return () => window.removeEventListener("keydown", closeOnEscape);
+  }, [settingsOpen]);
+
+  if (settingsOpen) {
+    return (
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+        onClick={(e) => e.target === e.currentTarget && setSettingsOpen(false)}
+      >
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="consent-settings-title"
+          className="w-full max-w-[560px] max-h-full overflow-y-auto bg-[#1d1d1f] border border-white/10 rounded-2xl p-6 shadow-2xl"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h2 id="consent-settings-title" className="text-[21px] font-semibold tracking-tight">
+              {t("consent.settingsTitle")}
+            </h2>
+            <button
+              autoFocus
+              onClick={() => setSettingsOpen(false)}
+              aria-label={t("consent.close")}
+              className="text-[#86868b] hover:text-white transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex flex-col divide-y divide-white/8">
+            {consentCategories.map(category => (
+              <label key={category} className="flex items-start justify-between gap-4 py-4">
+                <span>
+                  <span className="block text-[17px] font-medium text-white">{categories[category].name}</span>
+                  <span className="block text-sm text-[#86868b] leading-relaxed mt-1">
+                    {categories[category].description}
+                  </span>
+                </span>
+                {category === "necessary" ? (
+                  <span className="shrink-0 text-sm text-[#86868b] mt-0.5">{t("consent.alwaysOn")}</span>
+                ) : (
+                  <input
+                    type="checkbox"
+                    checked={choices[category]}
+                    onChange={(e) => setChoices({ ...choices, [category]: e.target.checked })}
+                    className="shrink-0 w-5 h-5 mt-0.5 accent-blue-500 cursor-pointer"
+                  />
+                )}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3 sm:justify-end mt-4">
+            <button onClick={() => choose(NONE)} className={buttonClass}>
+              {t("consent.rejectAll")}
+            </button>
+            <button onClick={() => choose(choices)} className={buttonClass}>
+              {t("consent.save")}
+            </button>
+            <button onClick={() => choose(ALL)} className={buttonClass}>
+              {t("consent.acceptAll")}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (consent) return null;
+
+  return (
+    <div role="region" aria-label={t("consent.title")} className="fixed inset-x-0 bottom-0 z-50 p-4">
+      <div className="max-w-[720px] mx-auto bg-[#1d1d1f] border border-white/10 rounded-2xl p-6 shadow-2xl">
+        <h2 className="text-[17px] font-semibold mb-2">{t("consent.title")}</h2>
+        <p className="text-sm text-[#86868b] leading-relaxed mb-5">
+          <InlineText text={t("consent.description", { privacyUrl: localizedPath("/privacy", language) })} />
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3 sm:justify-end">
+          <button onClick={openSettings} className="py-2.5 px-5 text-sm font-medium text-[#86868b] hover:text-white transition-colors">
+            {t("consent.customize")}
+          </button>
+          {/* Rejecting is as easy as accepting. */}
+          <button onClick={() => choose(NONE)} className={buttonClass}>
+            {t("consent.rejectAll")}
+          </button>
+          <button onClick={() => choose(ALL)} className={buttonClass}>
+            {t("consent.acceptAll")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import React from "react";
+import { track } from "../analytics/analytics";
+import { useLanguage } from "../i18n/LanguageContext";
+import { defaultLanguage } from "../i18n/i18n";
+
+/**
+ * Shown on translated legal pages: only the English text is binding, so
+ * readers of a translation are pointed at it.
+ */
+export function EnglishVersionNotice({ path }: { path: string }) {
+  const { t, language } = useLanguage();
+  if (language === defaultLanguage) return null;
+
+  return (
+    <div className="mb-8 px-4 py-3 rounded-xl border border-yellow-500/30 bg-yellow-500/10 text-sm text-[#f5f5f7]">
+      {t("legal.authoritative")}{" "}
+      <a
+        href={path}
+        hrefLang={defaultLanguage}
+        onClick={() => track("english_version_click", { path })}
+        className="text-blue-500 hover:underline"
+      >
+        {t("legal.readEnglish")}
+      </a>
+    </div>
+  );
+}
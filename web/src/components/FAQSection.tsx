@@ -1,55 +1,88 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { track } from "../analytics/analytics";
+import { type FAQCategory, faqAnchor, faqEntries } from "../faq";
 import { useLanguage } from "../i18n/LanguageContext";
+import { type GlossaryTerm, GlossaryText, glossaryTerms } from "./GlossaryText";
 
-export default function FAQSection() {
-  const { t } = useLanguage();
+/**
+ * The FAQ, with glossary terms of the current language highlighted in the
+ * answers. `terms` adds highlights computed by the page, such as the current
+ * prices. Entries are collapsible and filterable by category; linking to an
+ * entry's anchor (`/#faq-refunds`) opens it.
+ */
+export default function FAQSection({ terms = [] }: { terms?: GlossaryTerm[] }) {
+  const { language, t, tObject } = useLanguage();
+  const [category, setCategory] = useState<FAQCategory | "all">("all");
+  const glossary = [...glossaryTerms(tObject("glossary")), ...terms];
+  const entries = faqEntries(language);
 
-  const highlightTerms = (text: string): string => {
-    return text
-      .replace(/VVTerm/g, '<span class="text-blue-400">VVTerm</span>')
-      .replace(/libghostty/g, '<span class="text-[#30d158]">libghostty</span>')
-      .replace(/Ghostty/g, '<span class="text-[#30d158]">Ghostty</span>')
-      .replace(/iCloud/g, '<span class="text-[#5ac8fa]">iCloud</span>')
-      .replace(/Keychain/g, '<span class="text-[#ffcc00]">Keychain</span>')
-      .replace(/Apple Keychain/g, '<span class="text-[#ffcc00]">Apple Keychain</span>')
-      .replace(/SSH/g, '<span class="text-[#ff9500]">SSH</span>')
-      .replace(/MLX Whisper/g, '<span class="text-[#af52de]">MLX Whisper</span>')
-      .replace(/App Store/g, '<span class="text-blue-400">App Store</span>')
-      .replace(/Apple ID/g, '<span class="text-zinc-300">Apple ID</span>')
-      .replace(/iOS 16\+/g, '<span class="text-blue-500">iOS 16+</span>')
-      .replace(/macOS 13\+/g, '<span class="text-blue-500">macOS 13+</span>')
-      .replace(/macOS 13\+ Ventura/g, '<span class="text-blue-500">macOS 13+ Ventura</span>')
-      .replace(/Apple Silicon/g, '<span class="text-zinc-400">Apple Silicon</span>')
-      .replace(/Intel Macs/g, '<span class="text-zinc-400">Intel Macs</span>')
-      .replace(/iPhone/g, '<span class="text-zinc-300">iPhone</span>')
-      .replace(/iPad/g, '<span class="text-zinc-300">iPad</span>')
-      .replace(/Mac/g, '<span class="text-zinc-300">Mac</span>')
-      .replace(/\$6\.49/g, '<span class="text-green-400">$6.49</span>')
-      .replace(/\$19\.99/g, '<span class="text-green-400">$19.99</span>')
-      .replace(/\$29\.99/g, '<span class="text-green-400">$29.99</span>')
-      .replace(/30-day/g, '<span class="text-green-400">30-day</span>')
-      .replace(/Esc/g, '<code class="text-[#89dceb] font-mono text-[15px]">Esc</code>')
-      .replace(/Tab/g, '<code class="text-[#89dceb] font-mono text-[15px]">Tab</code>')
-      .replace(/Ctrl/g, '<code class="text-[#89dceb] font-mono text-[15px]">Ctrl</code>');
-  };
+  const categoryNames = tObject("faq.categories");
+  const categories = (Object.keys(categoryNames) as FAQCategory[]).filter(name =>
+    entries.some(entry => entry.category === name),
+  );
+
+  useEffect(() => {
+    const openLinkedEntry = () => {
+      const anchor = decodeURIComponent(window.location.hash.slice(1));
+      if (!anchor.startsWith(faqAnchor(""))) return;
+
+      // Show every category, then open the entry once it has rendered.
+      setCategory("all");
+      requestAnimationFrame(() => {
+        const entry = document.getElementById(anchor);
+        if (entry instanceof HTMLDetailsElement) {
+          entry.open = true;
+          entry.scrollIntoView();
+        }
+      });
+    };
+
+    openLinkedEntry();
+    window.addEventListener("hashchange", openLinkedEntry);
+    return () => window.removeEventListener("hashchange", openLinkedEntry);
+  }, []);
+
+  const filterButton = (value: FAQCategory | "all", label: string) => (
+    <button
+      key={value}
+      onClick={() => setCategory(value)}
+      aria-pressed={category === value}
+      className={`py-2 px-4 text-sm font-medium rounded-full transition-all duration-200 ${category === value ? "bg-white/10 text-white" : "text-[#86868b] hover:text-white"}`}
+    >
+      {label}
+    </button>
+  );
 
   return (
-    <section className="py-20 px-6">
+    <section id="faq" className="py-20 px-6">
       <div className="max-w-[720px] mx-auto">
-        <h2 className="text-[56px] font-semibold text-center mb-16 tracking-tight">{t("faq.title")}</h2>
-        <div className="flex flex-col gap-8">
-          {["q1", "q2", "q3", "q4", "q5", "q6", "q7", "q8", "q9"].map((qKey) => {
-            const answer = t(`faq.${qKey}.answer`);
-
-            return (
-              <div key={qKey}>
-                <h3 className="text-[21px] font-semibold mb-3 tracking-tight">{t(`faq.${qKey}.question`)}</h3>
-                <p className="text-[#86868b] text-[17px] leading-[1.47059]">
-                  <span dangerouslySetInnerHTML={{ __html: highlightTerms(answer) }} />
+        <h2 className="text-[56px] font-semibold text-center mb-10 tracking-tight">{t("faq.title")}</h2>
+        {categories.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-1 bg-white/[0.05] rounded-full p-1 mb-12 w-fit mx-auto">
+            {filterButton("all", t("faq.all"))}
+            {categories.map(name => filterButton(name, categoryNames[name]))}
+          </div>
+        )}
+        <div className="flex flex-col divide-y divide-white/8">
+          {entries
+            .filter(entry => category === "all" || entry.category === category)
+            .map(entry => (
+              <details
+                key={entry.id}
+                id={faqAnchor(entry.id)}
+                onToggle={(e) => e.currentTarget.open && track("faq_open", { id: entry.id })}
+                className="group py-6 scroll-mt-20"
+              >
+                <summary className="flex items-start justify-between gap-4 cursor-pointer list-none [&::-webkit-details-marker]:hidden">
+                  <h3 className="text-[21px] font-semibold tracking-tight">{entry.question}</h3>
+                  <ChevronDown className="w-5 h-5 mt-1.5 shrink-0 text-[#86868b] transition-transform duration-200 group-open:rotate-180" />
+                </summary>
+                <p className="text-[#86868b] text-[17px] leading-[1.47059] mt-3">
+                  <GlossaryText text={entry.answer} terms={glossary} />
                 </p>
-              </div>
-            );
-          })}
+              </details>
+            ))}
         </div>
       </div>
     </section>
@@ -0,0 +1,94 @@
+import React from "react";
+import type { Catalog } from "../i18n/i18n";
+
+/** Kinds of highlighted terms; each locale lists its own terms per kind under `glossary`. */
+export type GlossaryKind = keyof Catalog["glossary"];
+
+export interface GlossaryTerm {
+  term: string;
+  kind: GlossaryKind;
+}
+
+export type GlossaryToken = string | GlossaryTerm;
+
+const kindClassNames: Record<GlossaryKind, string> = {
+  brand: "text-blue-400",
+  engine: "text-[#30d158]",
+  sync: "text-[#5ac8fa]",
+  security: "text-[#ffcc00]",
+  protocol: "text-[#ff9500]",
+  ai: "text-[#af52de]",
+  device: "text-zinc-300",
+  platform: "text-blue-500",
+  hardware: "text-zinc-400",
+  offer: "text-green-400",
+  key: "text-[#89dceb] font-mono text-[15px]",
+};
+
+/** Flattens a locale's `glossary` catalog entry into terms. */
+export function glossaryTerms(glossary: Record<GlossaryKind, readonly string[]>): GlossaryTerm[] {
+  return (Object.entries(glossary) as [GlossaryKind, readonly string[]][]).flatMap(([kind, terms]) =>
+    terms.map(term => ({ term, kind })),
+  );
+}
+
+// Letters and digits of scripts that separate words with spaces. A term that
+// starts or ends with one only matches at a word boundary, so "Mac" skips
+// "Macs"; CJK terms and text have no such boundaries and match anywhere.
+const WORD_CHAR = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{N}_]/u;
+
+function isBoundary(text: string, index: number, termEdge: string): boolean {
+  if (!WORD_CHAR.test(termEdge)) return true;
+  const neighbour = text[index];
+  return neighbour === undefined || !WORD_CHAR.test(neighbour);
+}
+
+/**
+ * Splits text into plain runs and glossary terms. At each position the
+ * longest matching term wins, so "Apple Keychain" is one term rather than
+ * "Apple" followed by "Keychain", and matched text is never matched again.
+ */
+export function tokenize(text: string, terms: GlossaryTerm[]): GlossaryToken[] {
+  const candidates = terms.filter(({ term }) => term).sort((a, b) => b.term.length - a.term.length);
+  const tokens: GlossaryToken[] = [];
+  let plain = "";
+
+  for (let index = 0; index < text.length; ) {
+    const match = candidates.find(
+      ({ term }) =>
+        text.startsWith(term, index) &&
+        isBoundary(text, index - 1, term[0]!) &&
+        isBoundary(text, index + term.length, term[term.length - 1]!),
+    );
+
+    if (match) {
+      if (plain) tokens.push(plain);
+      plain = "";
+      tokens.push({ term: text.slice(index, index + match.term.length), kind: match.kind });
+      index += match.term.length;
+    } else {
+      plain += text[index];
+      index++;
+    }
+  }
+
+  if (plain) tokens.push(plain);
+  return tokens;
+}
+
+/** Renders text with its glossary terms highlighted. Everything is rendered as text, never as HTML. */
+export function GlossaryText({ text, terms }: { text: string; terms: GlossaryTerm[] }) {
+  return (
+    <>
+      {tokenize(text, terms).map((token, index) => {
+        if (typeof token === "string") return token;
+        const Element = token.kind === "key" ? "code" : "span";
+        return (
+          <Element key={index} className={kindClassNames[token.kind]}>
+            {token.term}
+          </Element>
+        );
+      })}
+    </>
+  );
+}
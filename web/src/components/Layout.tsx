@@ -0,0 +1,108 @@
+import React from "react";
+import { track } from "../analytics/analytics";
+import { openConsentSettings } from "../analytics/consent";
+import { useLanguage } from "../i18n/LanguageContext";
+import { type Language, localizedPath } from "../i18n/i18n";
+import { DISCORD_URL, GITHUB_REPO_URL } from "../site";
+
+const LINK_CLASS = "text-sm text-zinc-500 hover:text-blue-500 transition-colors duration-200";
+
+function LanguageSwitcher() {
+  const { language, setLanguage, availableLanguages } = useLanguage();
+
+  return (
+    <select
+      value={language}
+      onChange={(e) => {
+        const newLang = e.target.value as Language;
+        track("language_change", { from: language, to: newLang });
+        setLanguage(newLang);
+      }}
+      className="bg-transparent border-none text-sm text-zinc-500 cursor-pointer hover:text-blue-500 transition-colors appearance-none"
+    >
+      {Object.entries(availableLanguages).map(([code, name]) => (
+        <option key={code} value={code} className="bg-[#1d1d1f] text-white">
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function Header() {
+  const { t, language } = useLanguage();
+  const home = localizedPath("/", language);
+
+  return (
+    <header className="px-6 py-4 border-b border-white/8">
+      <div className="max-w-[1200px] mx-auto flex items-center justify-between gap-6">
+        <a href={home} className="flex items-center gap-3">
+          <img src="/logo.png" alt="" className="w-8 h-8 rounded-lg" />
+          <span className="text-lg font-semibold tracking-tight">VVTerm</span>
+        </a>
+        <nav className="flex items-center gap-6">
+          <a href={`${home}#pricing`} className={LINK_CLASS}>{t("nav.pricing")}</a>
+          <a href={`${home}#faq`} className={LINK_CLASS}>{t("nav.faq")}</a>
+          <a href={localizedPath("/docs", language)} className={LINK_CLASS}>{t("nav.docs")}</a>
+          <a href={localizedPath("/support", language)} className={LINK_CLASS}>{t("nav.support")}</a>
+        </nav>
+      </div>
+    </header>
+  );
+}
+
+function Footer() {
+  const { t, language } = useLanguage();
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <footer className="py-12 px-6 border-t border-white/8 mt-20">
+      <div className="max-w-[1200px] mx-auto flex flex-col md:flex-row justify-between items-center md:items-center gap-6">
+        <p className="text-sm text-[#86868b] text-center md:text-left">© {currentYear} {t("footer.copyright")}</p>
+        <div className="flex flex-col sm:flex-row gap-4 sm:gap-6 items-center">
+          <a href={DISCORD_URL} onClick={() => track("discord_click", { placement: "footer" })} className={LINK_CLASS} target="_blank" rel="noopener noreferrer">
+            {t("footer.discord")}
+          </a>
+          <a href={GITHUB_REPO_URL} onClick={() => track("github_click", { placement: "footer" })} className={LINK_CLASS} target="_blank" rel="noopener noreferrer">
+            {t("hero.viewOnGithub")}
+          </a>
+          <span className="text-zinc-700 hidden sm:inline">|</span>
+          <a href={localizedPath("/privacy", language)} className={LINK_CLASS}>
+            {t("footer.privacy")}
+          </a>
+          <a href={localizedPath("/terms", language)} className={LINK_CLASS}>
+            {t("footer.terms")}
+          </a>
+          <button onClick={openConsentSettings} className={LINK_CLASS}>
+            {t("footer.cookieSettings")}
+          </button>
+          <a href={localizedPath("/refund", language)} className={LINK_CLASS}>
+            {t("footer.refund")}
+          </a>
+          <a href={localizedPath("/support", language)} className={LINK_CLASS}>
+            {t("footer.support")}
+          </a>
+          <span className="text-zinc-700 hidden sm:inline">|</span>
+          <LanguageSwitcher />
+        </div>
+      </div>
+    </footer>
+  );
+}
+
+/**
+ * The frame of every page: the header with the site navigation, then the
+ * page's content, then the footer with the legal links and the language
+ * switcher. Pages render their content as `<main>`'s children.
+ */
+export function Layout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col w-full overflow-x-hidden">
+      <Header />
+      <main className="flex-1 flex flex-col">{children}</main>
+      <Footer />
+    </div>
+  );
+}
+
+export default Layout;
@@ -0,0 +1,75 @@
+import React from "react";
+import type { DiffLine, DiffPart } from "../legal/diff";
+import { InlineText } from "./RichText";
+
+const REMOVED_CLASS = "bg-red-500/15 text-red-300 line-through decoration-red-300/60";
+const ADDED_CLASS = "bg-green-500/15 text-green-300 no-underline";
+
+function Part({ part }: { part: DiffPart }) {
+  if (part.type === "removed") return <del className={REMOVED_CLASS}>{part.value}</del>;
+  if (part.type === "added") return <ins className={ADDED_CLASS}>{part.value}</ins>;
+  return <>{part.value}</>;
+}
+
+function LineText({ line }: { line: DiffLine }) {
+  if (line.type === "equal") return <InlineText text={line.parts[0]!.value} />;
+  if (line.type === "removed") return <del className={REMOVED_CLASS}>{line.parts[0]!.value}</del>;
+  if (line.type === "added") return <ins className={ADDED_CLASS}>{line.parts[0]!.value}</ins>;
+  return (
+    <>
+      {line.parts.map((part, i) => (
+        <Part key={i} part={part} />
+      ))}
+    </>
+  );
+}
+
+const MARKER_CLASSES: Record<DiffLine["type"], string> = {
+  equal: "border-transparent",
+  removed: "border-red-500/60",
+  added: "border-green-500/60",
+  changed: "border-yellow-500/60",
+};
+
+/**
+ * The differences between two versions of a legal text (see
+ * `diffLegalTexts()`), in full: unchanged lines as they are, removed and
+ * added ones struck through or highlighted, and changed ones with the
+ * changed words marked. A bar in the margin marks every line that differs.
+ */
+export function LegalDiff({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="space-y-3 text-[#86868b]">
+      {lines.map((line, i) => {
+        const className = `border-l-2 pl-4 ${MARKER_CLASSES[line.type]}`;
+        switch (line.kind) {
+          case "title":
+            return (
+              <h3 key={i} className={`${className} text-xl font-semibold text-white pt-4`}>
+                <LineText line={line} />
+              </h3>
+            );
+          case "heading":
+            return (
+              <h4 key={i} className={`${className} text-lg font-medium text-white`}>
+                <LineText line={line} />
+              </h4>
+            );
+          case "bullet":
+            return (
+              <p key={i} className={className}>
+                <span className="mr-2">•</span>
+                <LineText line={line} />
+              </p>
+            );
+          default:
+            return (
+              <p key={i} className={className}>
+                <LineText line={line} />
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
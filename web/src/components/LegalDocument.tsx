@@ -0,0 +1,51 @@
+import React from "react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { defaultLanguage, localizedPath } from "../i18n/i18n";
+import {
+  type LegalDocumentId,
+  type LegalVersion,
+  currentVersion,
+  formatEffectiveDate,
+  legalDocumentPaths,
+} from "../legal/documents";
+import { EnglishVersionNotice } from "./EnglishVersionNotice";
+import { RichText } from "./RichText";
+
+/** Points readers of a translated page at the English text of a version that was never translated. */
+export function EnglishOnlyNotice({ version }: { version: LegalVersion }) {
+  const { t, language } = useLanguage();
+  if (language === defaultLanguage || version.language !== defaultLanguage) return null;
+
+  return (
+    <div className="mb-8 px-4 py-3 rounded-xl border border-white/12 bg-white/[0.03] text-sm text-[#f5f5f7]">
+      {t("legal.englishOnly")}
+    </div>
+  );
+}
+
+/**
+ * A legal text: the version in effect, unless another is given, under its
+ * version number and effective date and a link to the version history.
+ */
+export function LegalDocument({ document, version }: { document: LegalDocumentId; version?: LegalVersion }) {
+  const { t, language } = useLanguage();
+  const shown = version ?? currentVersion(document, language);
+  const path = legalDocumentPaths[document];
+
+  return (
+    <>
+      <h1 className="text-4xl font-semibold tracking-tight mb-2">{t(`${document}.title`)}</h1>
+      <p className="text-[#86868b] mb-8">
+        {t("legal.effective", { version: shown.version, date: formatEffectiveDate(shown.effective, language) })}
+        {" · "}
+        <a href={localizedPath(`${path}/history`, language)} className="text-blue-500 hover:underline">
+          {t("legal.history")}
+        </a>
+      </p>
+
+      <EnglishVersionNotice path={path} />
+      <EnglishOnlyNotice version={shown} />
+      <RichText sections={shown.sections} />
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { LOG_ENDPOINT, LOG_RETENTION_DAYS, MAX_LOGS_PER_TICKET, MAX_LOG_KB, TICKET_ID_PATTERN } from "../tickets/form";
+import { type RedactedLog, redactLog, redactionKinds } from "../tickets/redact";
+
+type UploadError = "ticketId" | "empty" | "tooLarge" | "unknownTicket" | "tooMany" | "rateLimited" | "failed";
+
+const errorsByStatus: Record<number, UploadError> = { 404: "unknownTicket", 409: "tooMany", 413: "tooLarge", 429: "rateLimited" };
+
+const inputClass =
+  "w-full bg-white/[0.03] border border-white/12 rounded-xl px-4 py-3 text-[#f5f5f7] placeholder:text-[#6e6e73] focus:outline-none focus:border-blue-500";
+
+/**
+ * Uploads a diagnostic log for a ticket. The log is redacted as soon as it
+ * is chosen or pasted, and only the redacted text, shown in the preview, is
+ * ever sent.
+ */
+export function LogUpload({ ticketId: initialTicketId = "" }: { ticketId?: string }) {
+  const { t, language } = useLanguage();
+  const [ticketId, setTicketId] = useState(initialTicketId);
+  const [log, setLog] = useState<{ filename: string; redacted: RedactedLog }>();
+  const [status, setStatus] = useState<"editing" | "sending" | "sent">("editing");
+  const [error, setError] = useState<UploadError>();
+
+  const load = (filename: string, text: string) => {
+    setLog(text.trim() ? { filename, redacted: redactLog(text) } : undefined);
+    setError(undefined);
+  };
+
+  const upload = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const id = ticketId.trim().toUpperCase();
+    if (!TICKET_ID_PATTERN.test(id)) return setError("ticketId");
+    if (!log) return setError("empty");
+    if (new TextEncoder().encode(log.redacted.text).length > MAX_LOG_KB * 1024) return setError("tooLarge");
+
+    setStatus("sending");
+    setError(undefined);
+    try {
+      const response = await fetch(LOG_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketId: id, filename: log.filename, content: log.redacted.text }),
+      });
+      if (response.ok) {
+        setStatus("sent");
+        return;
+      }
+      setError(errorsByStatus[response.status] ?? "failed");
+    } catch {
+      setError("failed");
+    }
+    setStatus("editing");
+  };
+
+  if (status === "sent") {
+    return (
+      <div role="status" className="bg-white/[0.03] border border-white/8 rounded-3xl p-8">
+        <h2 className="text-2xl font-semibold tracking-tight mb-3">{t("support.logs.sent.title")}</h2>
+        <p className="text-[#86868b] mb-4">{t("support.logs.sent.body", { days: LOG_RETENTION_DAYS })}</p>
+        <button
+          onClick={() => {
+            setLog(undefined);
+            setStatus("editing");
+          }}
+          className="text-blue-500 hover:underline"
+        >
+          {t("support.logs.sent.another")}
+        </button>
+      </div>
+    );
+  }
+
+  const redactions = log ? redactionKinds.filter(kind => log.redacted.counts[kind] > 0) : [];
+
+  return (
+    <form onSubmit={upload} noValidate className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold tracking-tight mb-2">{t("support.logs.title")}</h2>
+        <p className="text-[#86868b]">{t("support.logs.intro", { days: LOG_RETENTION_DAYS })}</p>
+      </div>
+
+      <div>
+        <label htmlFor="log-ticket" className="block text-sm font-medium text-[#f5f5f7] mb-2">
+          {t("support.logs.ticketId")}
+        </label>
+        <input
+          id="log-ticket"
+          value={ticketId}
+          onChange={e => setTicketId(e.target.value)}
+          placeholder="VVT-XXXXXXXX"
+          autoComplete="off"
+          spellCheck={false}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="log-file" className="block text-sm font-medium text-[#f5f5f7] mb-2">
+          {t("support.logs.file")}
+        </label>
+        <input
+          id="log-file"
+          type="file"
+          accept=".log,.txt,.ips,text/plain"
+          onChange={async e => {
+            const file = e.target.files?.[0];
+            if (file) load(file.name, await file.text());
+          }}
+          className="block w-full text-sm text-[#86868b] file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:bg-white/10 file:text-white file:cursor-pointer"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="log-paste" className="block text-sm font-medium text-[#f5f5f7] mb-2">
+          {t("support.logs.paste")}
+        </label>
+        <textarea
+          id="log-paste"
+          rows={4}
+          spellCheck={false}
+          onChange={e => load("pasted.log", e.target.value)}
+          className={`${inputClass} font-mono text-sm`}
+        />
+      </div>
+
+      {log && (
+        <div>
+          <h3 className="text-sm font-medium text-[#f5f5f7] mb-2">{t("support.logs.preview")}</h3>
+          <p className="text-sm text-[#86868b] mb-3">
+            {redactions.length > 0
+              ? t("support.logs.redacted", {
+                  items: new Intl.ListFormat(language, { type: "conjunction" }).format(
+                    redactions.map(kind => t(`support.logs.kinds.${kind}`, { count: log.redacted.counts[kind] })),
+                  ),
+                })
+              : t("support.logs.nothingRedacted")}
+          </p>
+          <pre className="max-h-80 overflow-auto bg-black/40 border border-white/8 rounded-xl p-4 text-xs text-zinc-300 whitespace-pre-wrap break-all">
+            {log.redacted.text}
+          </pre>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {t(`support.logs.errors.${error}`, { size: MAX_LOG_KB / 1024, count: MAX_LOGS_PER_TICKET })}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === "sending"}
+        className="py-3 px-6 bg-blue-500 hover:bg-blue-600 disabled:opacity-60 text-white font-medium rounded-full transition-colors"
+      >
+        {t(status === "sending" ? "support.logs.sending" : "support.logs.submit")}
+      </button>
+    </form>
+  );
+}
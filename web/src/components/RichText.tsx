@@ -0,0 +1,88 @@
+import React from "react";
+import { track } from "../analytics/analytics";
+import { isSafeUrl } from "../safe-url";
+
+/**
+ * Rich text as stored in the translation catalogs. Blocks are headings,
+ * paragraphs and lists; inline text may contain Markdown-style links,
+ * `[label](href)`, which is the only markup translators need to know. Links
+ * to other than web, mail and relative URLs are shown as their label.
+ */
+export type RichBlock = { h3: string } | { p: string } | { ul: string[] } | { ol: string[] };
+
+export interface RichSection {
+  title: string;
+  body: RichBlock[];
+}
+
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function InlineText({ text }: { text: string }) {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const [source, label = "", href = ""] = match;
+    nodes.push(text.slice(lastIndex, match.index));
+    lastIndex = match.index + source.length;
+    if (!isSafeUrl(href)) {
+      nodes.push(label);
+      continue;
+    }
+    const external = /^https?:\/\//.test(href);
+    nodes.push(
+      <a
+        key={match.index}
+        href={href}
+        onClick={external || href.startsWith("mailto:") ? () => track("outbound_click", { url: href }) : undefined}
+        className="text-blue-500 hover:underline"
+        {...(external && { target: "_blank", rel: "noopener noreferrer" })}
+      >
+        {label}
+      </a>,
+    );
+  }
+  nodes.push(text.slice(lastIndex));
+
+  return <>{nodes}</>;
+}
+
+function Block({ block, first }: { block: RichBlock; first: boolean }) {
+  if ("h3" in block) {
+    return <h3 className={`text-lg font-medium text-white mb-2 ${first ? "" : "mt-4"}`}>{block.h3}</h3>;
+  }
+  if ("p" in block) {
+    return (
+      <p className={first ? "" : "mt-3"}>
+        <InlineText text={block.p} />
+      </p>
+    );
+  }
+
+  const items = "ul" in block ? block.ul : block.ol;
+  const ListTag = "ul" in block ? "ul" : "ol";
+  return (
+    <ListTag className={`${"ul" in block ? "list-disc space-y-1" : "list-decimal space-y-2"} list-inside ${first ? "" : "mt-2"}`}>
+      {items.map((item, i) => (
+        <li key={i}>
+          <InlineText text={item} />
+        </li>
+      ))}
+    </ListTag>
+  );
+}
+
+export function RichText({ sections }: { sections: RichSection[] }) {
+  return (
+    <div className="prose prose-invert max-w-none space-y-6 text-[#86868b]">
+      {sections.map(section => (
+        <section key={section.title}>
+          <h2 className="text-xl font-semibold text-white mb-3">{section.title}</h2>
+          {section.body.map((block, i) => (
+            <Block key={i} block={block} first={i === 0} />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
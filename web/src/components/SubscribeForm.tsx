@@ -0,0 +1,99 @@
+import React, { useState } from "react";
+import { Mail } from "lucide-react";
+import { track } from "../analytics/analytics";
+import type { AnalyticsEvents } from "../analytics/events";
+import { isEmailAddress } from "../email-address";
+import { useLanguage } from "../i18n/LanguageContext";
+import { HONEYPOT_FIELD, SUBSCRIBE_ENDPOINT } from "../newsletter/form";
+
+type SubscribeState = "editing" | "sending" | "sent";
+type SubscribeError = "email" | "rateLimited" | "failed";
+
+/**
+ * Signup for release announcements, sent to `POST /api/subscribe` with the
+ * page's language, in which the confirmation email and announcements are
+ * written. Once sent, the form asks to confirm from the inbox.
+ */
+export function SubscribeForm({ placement }: AnalyticsEvents["newsletter_signup"]) {
+  const { t, language } = useLanguage();
+  const [state, setState] = useState<SubscribeState>("editing");
+  const [error, setError] = useState<SubscribeError>();
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const email = String(form.get("email") ?? "").trim();
+    if (!isEmailAddress(email)) return setError("email");
+
+    setState("sending");
+    setError(undefined);
+    try {
+      const response = await fetch(SUBSCRIBE_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, language, [HONEYPOT_FIELD]: form.get(HONEYPOT_FIELD) || undefined }),
+      });
+      if (response.ok) {
+        track("newsletter_signup", { placement });
+        setState("sent");
+        return;
+      }
+      setError(response.status === 400 ? "email" : response.status === 429 ? "rateLimited" : "failed");
+    } catch {
+      setError("failed");
+    }
+    setState("editing");
+  };
+
+  return (
+    <div className="bg-white/[0.03] border border-white/8 rounded-3xl p-8">
+      <div className="flex items-center gap-3 mb-2">
+        <Mail size={20} className="text-blue-500" />
+        <h2 className="text-xl font-semibold">{t("newsletter.form.title")}</h2>
+      </div>
+      {state === "sent" ? (
+        <p role="status" className="text-[#86868b]">
+          {t("newsletter.form.sent")}
+        </p>
+      ) : (
+        <>
+          <p className="text-[#86868b] text-sm mb-6">{t("newsletter.form.intro")}</p>
+          <form onSubmit={submit} noValidate className="flex flex-col sm:flex-row gap-3">
+            <label htmlFor={`newsletter-email-${placement}`} className="sr-only">
+              {t("newsletter.form.email")}
+            </label>
+            <input
+              id={`newsletter-email-${placement}`}
+              name="email"
+              type="email"
+              autoComplete="email"
+              placeholder={t("newsletter.form.email")}
+              aria-invalid={error === "email" || undefined}
+              className="flex-1 bg-white/[0.03] border border-white/12 rounded-full px-5 py-3 text-[#f5f5f7] placeholder:text-[#6e6e73] focus:outline-none focus:border-blue-500"
+            />
+            {/* Hidden from people and assistive technology; bots fill it in. */}
+            <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+              <label>
+                {t("support.form.honeypot")}
+                <input name={HONEYPOT_FIELD} type="text" tabIndex={-1} autoComplete="off" />
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={state === "sending"}
+              className="py-3 px-6 bg-blue-500 hover:bg-blue-600 disabled:opacity-60 text-white font-medium rounded-full transition-colors"
+            >
+              {t(state === "sending" ? "newsletter.form.sending" : "newsletter.form.submit")}
+            </button>
+          </form>
+          {error && (
+            <p role="alert" className="mt-3 text-sm text-red-400">
+              {t(`newsletter.form.errors.${error}`)}
+            </p>
+          )}
+          <p className="mt-4 text-xs text-[#86868b]">{t("newsletter.form.privacy")}</p>
+        </>
+      )}
+    </div>
+  );
+}
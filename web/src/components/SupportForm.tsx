@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { track } from "../analytics/analytics";
+import { useLanguage } from "../i18n/LanguageContext";
+import {
+  type TicketField,
+  ATTACHMENT_TYPES,
+  DESCRIPTION_LENGTH,
+  HONEYPOT_FIELD,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_MB,
+  SUPPORT_ENDPOINT,
+  connectionModes,
+  ticketTopics,
+  ticketPlatforms,
+  validateTicket,
+} from "../tickets/form";
+
+type FormState =
+  | { status: "editing" | "sending"; errors: TicketField[]; failure?: "rateLimited" | "failed" }
+  | { status: "sent"; ticketId: string };
+
+const inputClass =
+  "w-full bg-white/[0.03] border border-white/12 rounded-xl px-4 py-3 text-[#f5f5f7] placeholder:text-[#6e6e73] focus:outline-none focus:border-blue-500";
+
+/**
+ * The structured support form, sent to `POST /api/support`. Fields are
+ * checked here with the server's rules before sending; after sending, the
+ * form is replaced by the ticket ID, which is also passed to `onSent`.
+ */
+export function SupportForm({ onSent }: { onSent?: (ticketId: string) => void }) {
+  const { t, language } = useLanguage();
+  const [state, setState] = useState<FormState>({ status: "editing", errors: [] });
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    form.set("language", language);
+
+    const result = validateTicket(form);
+    if (result.errors) {
+      setState({ status: "editing", errors: result.errors });
+      event.currentTarget.querySelector<HTMLElement>(`[name="${result.errors[0]}"]`)?.focus();
+      return;
+    }
+
+    setState({ status: "sending", errors: [] });
+    try {
+      const response = await fetch(SUPPORT_ENDPOINT, { method: "POST", body: form });
+      const body = await response.json().catch(() => ({}));
+      if (response.ok) {
+        track("support_ticket", { topic: result.ticket.topic });
+        setState({ status: "sent", ticketId: body.ticketId });
+        onSent?.(body.ticketId);
+      } else if (response.status === 400 && Array.isArray(body.fields)) {
+        setState({ status: "editing", errors: body.fields });
+      } else {
+        setState({ status: "editing", errors: [], failure: response.status === 429 ? "rateLimited" : "failed" });
+      }
+    } catch {
+      setState({ status: "editing", errors: [], failure: "failed" });
+    }
+  };
+
+  if (state.status === "sent") {
+    return (
+      <div role="status" className="bg-white/[0.03] border border-white/8 rounded-3xl p-8">
+        <h2 className="text-2xl font-semibold tracking-tight mb-3">{t("support.form.sent.title")}</h2>
+        <p className="text-[#86868b] mb-4">{t("support.form.sent.body")}</p>
+        <p className="font-mono text-xl text-[#f5f5f7] select-all">{state.ticketId}</p>
+      </div>
+    );
+  }
+
+  const invalid = (field: TicketField) => state.errors.includes(field);
+  const field = (name: TicketField, control: React.ReactNode, hint?: string) => (
+    <div>
+      <label htmlFor={`support-${name}`} className="block text-sm font-medium text-[#f5f5f7] mb-2">
+        {t(`support.form.fields.${name}.label`)}
+      </label>
+      {control}
+      {invalid(name) ? (
+        <p id={`support-${name}-error`} className="mt-2 text-sm text-red-400">
+          {t(`support.form.fields.${name}.error`, { ...DESCRIPTION_LENGTH, count: MAX_ATTACHMENTS, size: MAX_ATTACHMENT_MB })}
+        </p>
+      ) : (
+        hint && <p className="mt-2 text-sm text-[#86868b]">{hint}</p>
+      )}
+    </div>
+  );
+  const controlProps = (name: TicketField) => ({
+    id: `support-${name}`,
+    name,
+    "aria-invalid": invalid(name) || undefined,
+    "aria-describedby": invalid(name) ? `support-${name}-error` : undefined,
+  });
+  const select = <T extends string>(name: TicketField, options: readonly T[], label: (option: T) => string) => (
+    <select {...controlProps(name)} defaultValue="" className={`${inputClass} cursor-pointer`}>
+      <option value="" disabled className="bg-[#1d1d1f]">
+        {t("support.form.choose")}
+      </option>
+      {options.map(option => (
+        <option key={option} value={option} className="bg-[#1d1d1f]">
+          {label(option)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <form onSubmit={submit} noValidate className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold tracking-tight mb-2">{t("support.form.title")}</h2>
+        <p className="text-[#86868b]">{t("support.form.intro")}</p>
+      </div>
+
+      {field(
+        "email",
+        <input {...controlProps("email")} type="email" autoComplete="email" className={inputClass} />,
+      )}
+      {field(
+        "topic",
+        select("topic", ticketTopics, option => t(`support.form.fields.topic.options.${option}`)),
+      )}
+      <div className="grid sm:grid-cols-2 gap-6">
+        {field(
+          "platform",
+          select("platform", ticketPlatforms, option => t(`support.form.fields.platform.options.${option}`)),
+        )}
+        {field(
+          "appVersion",
+          <input {...controlProps("appVersion")} placeholder="1.2.0 (45)" className={inputClass} />,
+          t("support.form.fields.appVersion.hint"),
+        )}
+      </div>
+      {field(
+        "connection",
+        select("connection", connectionModes, option => t(`support.form.fields.connection.options.${option}`)),
+        t("support.form.fields.connection.hint"),
+      )}
+      {field(
+        "description",
+        <textarea {...controlProps("description")} rows={8} maxLength={DESCRIPTION_LENGTH.max} className={inputClass} />,
+        t("support.form.fields.description.hint"),
+      )}
+      {field(
+        "attachments",
+        <input
+          {...controlProps("attachments")}
+          type="file"
+          multiple
+          accept={ATTACHMENT_TYPES.join(",")}
+          className="block w-full text-sm text-[#86868b] file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:bg-white/10 file:text-white file:cursor-pointer"
+        />,
+        t("support.form.fields.attachments.hint", { count: MAX_ATTACHMENTS, size: MAX_ATTACHMENT_MB }),
+      )}
+
+      {/* Hidden from people and assistive technology; bots fill it in. */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label>
+          {t("support.form.honeypot")}
+          <input name={HONEYPOT_FIELD} type="text" tabIndex={-1} autoComplete="off" />
+        </label>
+      </div>
+
+      {state.failure && (
+        <p role="alert" className="text-sm text-red-400">
+          {t(`support.form.errors.${state.failure}`)}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={state.status === "sending"}
+        className="py-3 px-6 bg-blue-500 hover:bg-blue-600 disabled:opacity-60 text-white font-medium rounded-full transition-colors"
+      >
+        {t(state.status === "sending" ? "support.form.sending" : "support.form.submit")}
+      </button>
+    </form>
+  );
+}
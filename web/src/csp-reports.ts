@@ -0,0 +1,148 @@
+import type { BunRequest, Server } from "bun";
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import path from "path";
+import type { RateLimiter } from "./rate-limit";
+
+const MAX_BODY_BYTES = 16_384;
+// Longest stored document path, blocked source or directive; reports are
+// written by anyone, so longer values are cut.
+const MAX_FIELD_LENGTH = 200;
+// Most distinct violations logged a day; more are still counted.
+const MAX_LOGGED_PER_DAY = 500;
+
+/** A CSP violation, reduced to what tells violations apart. */
+export interface CspViolation {
+  /** Path of the page, without query or fragment. */
+  document: string;
+  /** Origin of the blocked resource, or a keyword such as `inline` or `eval`. */
+  blocked: string;
+  directive: string;
+  disposition: "enforce" | "report";
+}
+
+export interface CspReportStore {
+  record(violation: CspViolation): void;
+}
+
+/**
+ * Opens (creating if needed) the SQLite database of CSP violation reports,
+ * which are counted per day and distinct violation. A violation is also
+ * logged the first time the server sees it each day, up to
+ * `MAX_LOGGED_PER_DAY` of them.
+ */
+export function openCspReportStore(filename: string): CspReportStore {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS violations (
+      day TEXT NOT NULL, document TEXT NOT NULL, blocked TEXT NOT NULL, directive TEXT NOT NULL,
+      disposition TEXT NOT NULL, count INTEGER NOT NULL,
+      PRIMARY KEY (day, document, blocked, directive, disposition)
+    )
+  `);
+
+  const count = db.query(
+    `INSERT INTO violations (day, document, blocked, directive, disposition, count)
+     VALUES ($day, $document, $blocked, $directive, $disposition, 1)
+     ON CONFLICT DO UPDATE SET count = count + 1`,
+  );
+  const seen = new Set<string>();
+  let seenDay = "";
+
+  return {
+    record(violation) {
+      const day = new Date().toISOString().slice(0, 10);
+      count.run({ day, ...violation });
+      if (day !== seenDay) {
+        seen.clear();
+        seenDay = day;
+      }
+      const key = JSON.stringify(violation);
+      if (!seen.has(key) && seen.size < MAX_LOGGED_PER_DAY) {
+        seen.add(key);
+        console.warn("CSP violation:", violation);
+      }
+    },
+  };
+}
+
+function documentPath(url: unknown): string {
+  try {
+    return new URL(String(url)).pathname;
+  } catch {
+    return "unknown";
+  }
+}
+
+function blockedSource(url: unknown): string {
+  const value = String(url ?? "");
+  try {
+    const { origin, protocol } = new URL(value);
+    return origin === "null" ? protocol.replace(/:$/, "") : origin;
+  } catch {
+    return value || "unknown";
+  }
+}
+
+/**
+ * Violations in a report body, which browsers send either in the Reporting
+ * API format (`application/reports+json`, a list of reports) or the older
+ * `report-uri` format (`application/csp-report`).
+ */
+function parseReports(body: unknown): CspViolation[] {
+  const cut = (value: string) => value.slice(0, MAX_FIELD_LENGTH);
+  const fields = (report: Record<string, unknown>): CspViolation => ({
+    document: cut(documentPath(report.documentURL ?? report["document-uri"])),
+    blocked: cut(blockedSource(report.blockedURL ?? report["blocked-uri"])),
+    directive: cut(String(report.effectiveDirective ?? report["effective-directive"] ?? report["violated-directive"] ?? "unknown")),
+    disposition: report.disposition === "report" ? "report" : "enforce",
+  });
+
+  if (Array.isArray(body)) {
+    return body
+      .filter(report => report?.type === "csp-violation" && typeof report.body === "object" && report.body)
+      .map(report => fields(report.body));
+  }
+  if (typeof body === "object" && body && "csp-report" in body && typeof body["csp-report"] === "object" && body["csp-report"]) {
+    return [fields(body["csp-report"] as Record<string, unknown>)];
+  }
+  return [];
+}
+
+/**
+ * `POST /api/csp-report`, where browsers report violations of the CSP (see
+ * `security.ts`). Each IP address may send as many reports as `limiter` allows.
+ */
+export function cspReportRoute(store: CspReportStore, limiter: RateLimiter) {
+  return async (req: BunRequest, server: Server<undefined>) => {
+    if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+    const limit = limiter.take(server.requestIP(req)?.address ?? "");
+    if (!limit.allowed) {
+      return new Response(null, { status: 429, headers: { "Retry-After": String(limit.retryAfter) } });
+    }
+    const text = await req.text();
+    if (text.length > MAX_BODY_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return new Response(null, { status: 400 });
+    }
+
+    const violations = parseReports(body);
+    if (violations.length === 0) {
+      return new Response(null, { status: 400 });
+    }
+    for (const violation of violations) {
+      store.record(violation);
+    }
+    return new Response(null, { status: 204 });
+  };
+}
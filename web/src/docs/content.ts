@@ -0,0 +1,313 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { type HeadMetadata, describedHeadMetadata, renderDocumentHead } from "../document";
+import { type Language, defaultLanguage, getTranslation, isLanguage, languages, localizedPath } from "../i18n/i18n";
+import { parseFrontMatter } from "../legal/markdown";
+import { GITHUB_REPO_URL, SITE_URL } from "../site";
+import { renderMarkdown } from "./markdown";
+import { type DocsNode, type DocsView, DOCS_DATA_ID, DOCS_PATH } from "./view";
+
+/** The content directory: `docs/` at the root of the repository. */
+export const DOCS_DIR = path.join(import.meta.dir, "../../../docs");
+
+// Where the content directory is in the repository, for links to GitHub.
+const REPO_DOCS_DIR = "docs";
+const GITHUB_BRANCH = "main";
+
+const DESCRIPTION_LENGTH = 160;
+
+/** One language of a page: its Markdown file, parsed. */
+interface DocsText {
+  /** Path of the file, relative to the content directory. */
+  file: string;
+  title: string;
+  description: string;
+  order: number;
+  body: string;
+}
+
+interface DocsPage {
+  kind: "page";
+  /** URL path in the default language. */
+  path: string;
+  texts: { en: DocsText } & Partial<Record<Language, DocsText>>;
+}
+
+interface DocsFolder {
+  kind: "folder";
+  path: string;
+  name: string;
+  /** The folder's `index.md`, which names it and is its page. */
+  index?: DocsPage;
+  children: (DocsFolder | DocsPage)[];
+}
+
+/** The content directory, parsed: its folders and pages, in sidebar order. */
+export interface Docs {
+  root: DocsFolder;
+  /** Every page, by URL path in the default language. */
+  pages: Map<string, DocsPage>;
+}
+
+/** The text of a page in `language`, or in English where there is no translation. */
+const textOf = (page: DocsPage, language: Language): DocsText => page.texts[language] ?? page.texts.en;
+
+/** `terminal-custom-themes` → "Terminal custom themes", for folders without an `index.md`. */
+const titleFromName = (name: string) => {
+  const words = name.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** The first paragraph of `body` as plain text, shortened to fit a meta description. */
+function firstParagraph(body: string): string {
+  const paragraph: string[] = [];
+  for (const line of body.split(/\r?\n/)) {
+    const text = line.trim();
+    if (!text) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    if (/^(#|[-*+>|]|```|\d+\.)/.test(text)) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(text);
+  }
+
+  const plain = paragraph
+    .join(" ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[`*_]/g, "");
+  if (plain.length <= DESCRIPTION_LENGTH) return plain;
+  return `${plain.slice(0, plain.lastIndexOf(" ", DESCRIPTION_LENGTH - 1))}…`;
+}
+
+/**
+ * Parses a page's Markdown file. Front-matter may give its `title`, its
+ * `description` and its `order` in the sidebar; a leading `#` heading is
+ * the title otherwise, and the first paragraph the description. The heading
+ * is taken out of the body, since the page shows the title.
+ */
+function parseText(source: string, file: string): DocsText {
+  const { data, body } = parseFrontMatter(source);
+  const heading = body.match(/^\s*# (.+)\r?\n?/);
+  const content = heading ? body.slice(heading[0].length) : body;
+
+  const title = data.title ?? heading?.[1]!.trim();
+  if (!title) {
+    throw new Error(`${file}: needs a title, in front-matter or as a leading # heading`);
+  }
+  const order = data.order === undefined ? Infinity : Number(data.order);
+  if (Number.isNaN(order)) {
+    throw new Error(`${file}: front-matter \`order\` must be a number`);
+  }
+  return { file, title, description: data.description ?? firstParagraph(content), order, body: content };
+}
+
+/** What the sidebar is sorted by: front-matter `order`, then title. */
+function sortKey(node: DocsFolder | DocsPage): { order: number; title: string } {
+  if (node.kind === "page") return node.texts.en;
+  return node.index?.texts.en ?? { order: Infinity, title: titleFromName(node.name) };
+}
+
+const byOrder = (a: DocsFolder | DocsPage, b: DocsFolder | DocsPage) => {
+  const [first, second] = [sortKey(a), sortKey(b)];
+  // Infinity - Infinity is NaN, which falls through to the titles too.
+  return first.order - second.order || first.title.localeCompare(second.title);
+};
+
+/**
+ * Reads the content directory. Every Markdown file is a page at
+ * `/docs/<folders>/<name>`, and a folder's `index.md` is the folder's page;
+ * `<name>.<language>.md` next to a file translates it. Folders make up the
+ * sidebar, ordered by front-matter `order`, then by title. Files starting
+ * with `.` or `_` are skipped.
+ */
+export function loadDocs(dir = DOCS_DIR): Docs {
+  const pages = new Map<string, DocsPage>();
+
+  function readFolder(relative: string, urlPath: string): DocsFolder {
+    const folder: DocsFolder = { kind: "folder", path: urlPath, name: path.basename(relative), children: [] };
+    const translations: { file: string; page: string; language: Language }[] = [];
+
+    for (const entry of readdirSync(path.join(dir, relative), { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name.startsWith("_")) continue;
+      const file = path.posix.join(relative, entry.name);
+
+      if (entry.isDirectory()) {
+        folder.children.push(readFolder(file, `${urlPath}/${entry.name}`));
+        continue;
+      }
+      const match = entry.name.match(/^(.+?)(?:\.([a-z]{2,3}))?\.md$/);
+      if (!match) continue;
+      const [, name, language] = match as [string, string, string | undefined];
+
+      if (language !== undefined) {
+        if (!isLanguage(language) || language === defaultLanguage) {
+          throw new Error(`${file}: ${language} isn't a language the site is translated into`);
+        }
+        translations.push({ file, page: name, language });
+        continue;
+      }
+
+      const page: DocsPage = {
+        kind: "page",
+        path: name === "index" ? urlPath : `${urlPath}/${name}`,
+        texts: { en: parseText(readFileSync(path.join(dir, file), "utf8"), file) },
+      };
+      pages.set(page.path, page);
+      if (name === "index") folder.index = page;
+      else folder.children.push(page);
+    }
+
+    for (const { file, page: name, language } of translations) {
+      const page = pages.get(name === "index" ? urlPath : `${urlPath}/${name}`);
+      if (!page) {
+        throw new Error(`${file}: translates ${path.posix.join(relative, `${name}.md`)}, which doesn't exist`);
+      }
+      page.texts[language] = parseText(readFileSync(path.join(dir, file), "utf8"), file);
+    }
+
+    folder.children.sort(byOrder);
+    return folder;
+  }
+
+  return { root: readFolder("", DOCS_PATH), pages };
+}
+
+/** The URL paths of the documentation in the default language: the overview and every page. */
+export function docsPaths(docs: Docs): string[] {
+  return [...new Set([DOCS_PATH, ...docs.pages.keys()])].sort();
+}
+
+function sidebar(folder: DocsFolder, language: Language): DocsNode[] {
+  return folder.children.map(node => {
+    if (node.kind === "page") {
+      const { title, description } = textOf(node, language);
+      return { title, description, path: localizedPath(node.path, language), children: [] };
+    }
+    const index = node.index && textOf(node.index, language);
+    return {
+      title: index?.title ?? titleFromName(node.name),
+      description: index?.description,
+      path: node.index && localizedPath(node.index.path, language),
+      children: sidebar(node, language),
+    };
+  });
+}
+
+/**
+ * Where a link in a page's file leads: links to other Markdown files to
+ * their pages, in the page's language, and links to other files of the
+ * repository to GitHub. Absolute URLs and site paths stay as they are;
+ * `renderMarkdown()` drops links to schemes other than web and mail ones.
+ */
+function resolveLink(href: string, file: string, docs: Docs, language: Language): string {
+  if (/^[a-z][a-z\d+.-]*:|^[#/]/i.test(href)) return href;
+
+  const [target = "", hash] = href.split("#");
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(file), target));
+  const fragment = hash === undefined ? "" : `#${hash}`;
+
+  const markdown = resolved.match(/^(?!\.\.\/)(.*?)(?:\.[a-z]{2,3})?\.md$/);
+  if (markdown) {
+    const pagePath = `${DOCS_PATH}/${markdown[1]}`.replace(/\/index$/, "");
+    if (docs.pages.has(pagePath)) return localizedPath(pagePath, language) + fragment;
+  }
+  return `${GITHUB_REPO_URL}/blob/${GITHUB_BRANCH}/${path.posix.join(REPO_DOCS_DIR, resolved)}${fragment}`;
+}
+
+/** The view of the documentation page at `pagePath` (in the default language), if there is one. */
+export function docsView(docs: Docs, pagePath: string, language: Language): DocsView | undefined {
+  const page = docs.pages.get(pagePath);
+  if (!page && pagePath !== DOCS_PATH) return undefined;
+
+  const view: DocsView = { sidebar: sidebar(docs.root, language) };
+  if (page) {
+    const text = textOf(page, language);
+    const { html, toc } = renderMarkdown(text.body, href => resolveLink(href, text.file, docs, language));
+    view.article = {
+      path: localizedPath(page.path, language),
+      title: text.title,
+      description: text.description,
+      html,
+      toc,
+      editUrl: `${GITHUB_REPO_URL}/edit/${GITHUB_BRANCH}/${REPO_DOCS_DIR}/${text.file}`,
+      language: page.texts[language] ? language : defaultLanguage,
+    };
+  }
+  return view;
+}
+
+/**
+ * The languages a documentation page is written in: all of them for the
+ * overview, which has no text of its own.
+ */
+function translatedLanguages(docs: Docs, pagePath: string): Language[] {
+  const page = docs.pages.get(pagePath);
+  return (Object.keys(languages) as Language[]).filter(language => !page || page.texts[language]);
+}
+
+/** `hreflang` alternates of a documentation page: its translations plus `x-default`. */
+function docsAlternates(docs: Docs, pagePath: string) {
+  return translatedLanguages(docs, pagePath)
+    .map(language => ({ hreflang: language as string, href: SITE_URL + localizedPath(pagePath, language) }))
+    .concat({ hreflang: "x-default", href: SITE_URL + pagePath });
+}
+
+/**
+ * The head metadata of a documentation page. Language variants without a
+ * translation show the English text, so their canonical URL is the English
+ * page's.
+ */
+export function docsHead(docs: Docs, pagePath: string, view: DocsView, language: Language): HeadMetadata {
+  const translated = translatedLanguages(docs, pagePath).includes(language);
+  const { article } = view;
+
+  return describedHeadMetadata(
+    {
+      title: article
+        ? getTranslation(language, "meta.docs.pageTitle", { title: article.title })
+        : getTranslation(language, "meta.docs.title"),
+      description: article?.description ?? getTranslation(language, "meta.docs.description"),
+      indexable: true,
+      canonical: SITE_URL + localizedPath(pagePath, translated ? language : defaultLanguage),
+      alternates: docsAlternates(docs, pagePath),
+    },
+    language,
+  );
+}
+
+/** Sitemap entries of the documentation: each page in each language it is written in. */
+export function docsSitemapUrls(docs: Docs): { loc: string; alternates: { hreflang: string; href: string }[] }[] {
+  return docsPaths(docs).flatMap(pagePath =>
+    translatedLanguages(docs, pagePath).map(language => ({
+      loc: SITE_URL + localizedPath(pagePath, language),
+      alternates: docsAlternates(docs, pagePath),
+    })),
+  );
+}
+
+/**
+ * Fills in a documentation page's `<head>` (see `renderDocumentHead()`) and
+ * embeds its view as JSON, which the browser hydrates the page from. `<` is
+ * escaped so that nothing in the view can close the element.
+ */
+export function renderDocsDocument(
+  response: Response,
+  view: DocsView,
+  head: HeadMetadata,
+  language: Language,
+  nonce?: string,
+): Response {
+  const json = JSON.stringify(view).replace(/</g, "\\u003c");
+  const data = `<script type="application/json" id="${DOCS_DATA_ID}">${json}</script>`;
+
+  return new HTMLRewriter()
+    .on("body", {
+      element(element) {
+        element.append(data, { html: true });
+      },
+    })
+    .transform(renderDocumentHead(response, head, language, nonce));
+}
@@ -0,0 +1,15 @@
+import React from "react";
+import { DocsPage } from "../pages";
+import { LanguageProvider } from "../i18n/LanguageContext";
+import { mount } from "../mount";
+import { type DocsView, DOCS_DATA_ID } from "./view";
+import "../index.css";
+
+// The server embeds the page's view; see `renderDocsDocument()`.
+const view = JSON.parse(document.getElementById(DOCS_DATA_ID)!.textContent!) as DocsView;
+
+mount(
+  <LanguageProvider>
+    <DocsPage view={view} />
+  </LanguageProvider>,
+);
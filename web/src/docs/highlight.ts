@@ -0,0 +1,116 @@
+/**
+ * A small syntax highlighter for the code blocks of the documentation: it
+ * marks comments, strings, numbers and keywords of the languages the docs
+ * show (Swift, TypeScript, shell, JSON, YAML and SSH config), and escapes
+ * everything else. Code in other languages is only escaped.
+ */
+
+type TokenKind = "comment" | "string" | "number" | "keyword" | "key" | "variable";
+
+interface Grammar {
+  /** Patterns of comments, strings and the like, without capturing groups, tried in order. */
+  tokens: [TokenKind, RegExp][];
+  keywords: Set<string>;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  comment: "text-[#6c7986] italic",
+  string: "text-[#fc6a5d]",
+  number: "text-[#d0bf69]",
+  keyword: "text-[#fc5fa3] font-semibold",
+  key: "text-[#67b7a4]",
+  variable: "text-[#a167e6]",
+};
+
+const words = (list: string) => new Set(list.split(" "));
+
+const C_COMMENTS: [TokenKind, RegExp] = ["comment", /\/\/[^\n]*|\/\*[\s\S]*?\*\//];
+const QUOTED: [TokenKind, RegExp] = ["string", /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/];
+const NUMBER: [TokenKind, RegExp] = ["number", /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?)\b/];
+
+const swift: Grammar = {
+  tokens: [C_COMMENTS, ["string", /"""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"/], NUMBER],
+  keywords: words(
+    "actor as async await break case catch class continue default defer do else enum extension false fileprivate final for func guard if import in init internal let nil private protocol public return self Self some static struct switch throw throws true try var weak where while",
+  ),
+};
+
+const typescript: Grammar = {
+  tokens: [C_COMMENTS, QUOTED, ["string", /`(?:\\.|[^`\\])*`/], NUMBER],
+  keywords: words(
+    "as async await break case catch class const continue default delete do else enum export extends false finally for from function if import in instanceof interface let new null of return satisfies switch this throw true try type typeof undefined var void while yield",
+  ),
+};
+
+const shell: Grammar = {
+  tokens: [
+    ["comment", /(?<=^|\s)#[^\n]*/],
+    QUOTED,
+    ["variable", /\$(?:\{[^}\n]*\}|\w+)/],
+    NUMBER,
+  ],
+  keywords: words("case do done elif else esac export fi for function if in local return then until while"),
+};
+
+const json: Grammar = {
+  tokens: [["key", /"(?:\\.|[^"\\\n])*"(?=\s*:)/], ["string", /"(?:\\.|[^"\\\n])*"/], ["number", /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/]],
+  keywords: words("true false null"),
+};
+
+const yaml: Grammar = {
+  tokens: [["comment", /(?<=^|\s)#[^\n]*/], ["key", /(?<=^[ \t-]*)[\w.-]+(?=:(?:\s|$))/m], QUOTED, NUMBER],
+  keywords: words("true false null yes no on off"),
+};
+
+const sshConfig: Grammar = {
+  tokens: [["comment", /(?<=^|\s)#[^\n]*/], ["key", /(?<=^[ \t]*)[A-Za-z]+(?=[ \t=])/m], QUOTED, NUMBER],
+  keywords: words("yes no any none"),
+};
+
+/** Grammars by the language names code blocks are marked with. */
+const grammars: Record<string, Grammar> = {
+  swift,
+  ts: typescript,
+  typescript,
+  tsx: typescript,
+  js: typescript,
+  javascript: typescript,
+  sh: shell,
+  bash: shell,
+  zsh: shell,
+  shell,
+  console: shell,
+  json,
+  yaml,
+  yml: yaml,
+  "ssh-config": sshConfig,
+  ssh_config: sshConfig,
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** `code` as HTML, its tokens in `<span>`s styled by kind, if `language` is one the highlighter knows. */
+export function highlightCode(code: string, language: string | undefined): string {
+  const grammar = language ? grammars[language.toLowerCase()] : undefined;
+  if (!grammar) return escapeHtml(code);
+
+  // One pass over the code: the grammar's tokens in order, then words.
+  const pattern = new RegExp(
+    [...grammar.tokens.map(([, token]) => `(${token.source})`), "([A-Za-z_][\\w]*)"].join("|"),
+    "gm",
+  );
+  const span = (kind: TokenKind, text: string) => `<span class="${TOKEN_CLASSES[kind]}">${escapeHtml(text)}</span>`;
+
+  let html = "";
+  let lastIndex = 0;
+  for (const match of code.matchAll(pattern)) {
+    html += escapeHtml(code.slice(lastIndex, match.index));
+    const group = match.slice(1).findIndex(value => value !== undefined);
+    const [text] = match;
+    if (group < grammar.tokens.length) html += span(grammar.tokens[group]![0], text);
+    else html += grammar.keywords.has(text) ? span("keyword", text) : escapeHtml(text);
+    lastIndex = match.index + text.length;
+  }
+  return html + escapeHtml(code.slice(lastIndex));
+}
@@ -0,0 +1,324 @@
+import { isSafeUrl } from "../safe-url";
+import { escapeHtml, highlightCode } from "./highlight";
+import type { TocEntry } from "./view";
+
+export interface RenderedMarkdown {
+  html: string;
+  /** The `##` and `###` headings, in order. */
+  toc: TocEntry[];
+}
+
+const unescapeHtml = (html: string): string =>
+  html.replace(/&quot;/g, '"').replace(/&gt;/g, ">").replace(/&lt;/g, "<").replace(/&amp;/g, "&");
+
+const stripTags = (html: string): string => unescapeHtml(html.replace(/<[^>]*>/g, ""));
+
+/**
+ * The anchor of a heading, as GitHub makes them, so that links to sections
+ * of a file work on both: lowercase letters and digits of any script, with
+ * spaces as hyphens. `Mosh & Tailscale` → `mosh--tailscale`.
+ */
+function headingId(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, "").trim().replace(/\s/g, "-");
+}
+
+type Align = "left" | "center" | "right";
+
+const ALIGN_CLASSES: Record<Align, string> = { left: "text-left", center: "text-center", right: "text-right" };
+
+const HEADING_CLASSES: Record<number, string> = {
+  2: "text-2xl font-semibold text-white mt-12 mb-4",
+  3: "text-xl font-semibold text-white mt-8 mb-3",
+  4: "text-lg font-medium text-white mt-6 mb-2",
+};
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+// Inline syntax that is rendered before emphasis, at its position: hard line
+// breaks, backslash escapes, code spans, links and images, and autolinks.
+const INLINE =
+  /( {2,}|\\)\n|\\([!-/:-@[-`{-~])|(`+)([\s\S]*?[^`])\3(?!`)|(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"([^"]*)")?\s*\)|<((?:https?:\/\/|mailto:)[^\s<>]+)>|(https?:\/\/[^\s<>]*[^\s<>.,:;!?"'*_~)\]])/g;
+
+// Placeholders of rendered inline HTML, which emphasis and escaping leave alone.
+const HELD = /\u0000(\d+)\u0000/g;
+
+/** Whether `line` starts a block that ends the paragraph before it. */
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || ITEM.test(line);
+
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+/** The cells of a table row; `\|` is a pipe within a cell. */
+const tableCells = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, "|"));
+
+function cellAlign(delimiter: string): Align {
+  if (delimiter.startsWith(":") && delimiter.endsWith(":")) return "center";
+  return delimiter.endsWith(":") ? "right" : "left";
+}
+
+/**
+ * Renders the Markdown of a documentation page to HTML styled like the rest
+ * of the site. The Markdown GitHub shows for the files is supported, but
+ * for setext headings, indented code blocks and raw HTML, which is escaped:
+ * `#` headings, paragraphs, `-` and `1.` lists with task items, block
+ * quotes, fenced code, tables, rules, emphasis, code spans, links, images and
+ * autolinks. Headings get IDs (see `headingId()`) and a `#` link, code blocks
+ * are highlighted (see `highlight.ts`), and link targets are passed through
+ * `resolveLink`, so links between Markdown files lead to their pages.
+ * Links and images to other than web, mail and relative URLs, such as
+ * `javascript:`, are left out, keeping their text.
+ */
+export function renderMarkdown(body: string, resolveLink: (href: string) => string): RenderedMarkdown {
+  const toc: TocEntry[] = [];
+  const ids = new Map<string, number>();
+  const uniqueId = (text: string) => {
+    const slug = headingId(text) || "section";
+    const count = ids.get(slug) ?? 0;
+    ids.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count}`;
+  };
+
+  function link(children: string, href: string, title: string | undefined): string {
+    const target = resolveLink(href);
+    if (!isSafeUrl(target)) return children;
+    const external = /^(https?:|mailto:)/.test(target);
+    return (
+      `<a href="${escapeHtml(target)}"${title ? ` title="${escapeHtml(title)}"` : ""} class="text-blue-500 hover:underline"` +
+      `${external ? ' target="_blank" rel="noopener noreferrer"' : ""}>${children}</a>`
+    );
+  }
+
+  function inline(text: string): string {
+    const held: string[] = [];
+    const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+    const marked = text.trim().replace(
+      INLINE,
+      (match, lineBreak, escaped, ticks, code, bang, label, href, title, autolink, url) => {
+        if (lineBreak !== undefined) return hold("<br />");
+        if (escaped !== undefined) return hold(escapeHtml(escaped));
+        if (ticks !== undefined) {
+          const content = code.replace(/\n/g, " ").replace(/^ (.*[^ ].*) $/, "$1");
+          return hold(`<code class="px-1.5 py-0.5 rounded-md bg-white/[0.08] text-[#f5f5f7] text-[0.9em]">${escapeHtml(content)}</code>`);
+        }
+        if (label !== undefined && bang) {
+          const src = resolveLink(href);
+          if (!isSafeUrl(src)) return hold(escapeHtml(stripTags(inline(label))));
+          return hold(
+            `<img src="${escapeHtml(src)}" alt="${escapeHtml(stripTags(inline(label)))}"` +
+              `${title ? ` title="${escapeHtml(title)}"` : ""} class="mt-4 rounded-xl max-w-full" />`,
+          );
+        }
+        if (label !== undefined) return hold(link(inline(label), href, title));
+        const address = autolink ?? url;
+        return address === undefined ? match : hold(link(escapeHtml(address), address, undefined));
+      },
+    );
+
+    return escapeHtml(marked)
+      .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong class="text-white font-semibold">$1</strong>')
+      .replace(/(^|[^\p{L}\p{N}])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}])/gu, '$1<strong class="text-white font-semibold">$2</strong>')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>")
+      .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, "<em>$1</em>")
+      .replace(/(^|[^\p{L}\p{N}])_(?=[^\s_])([^_]*?[^\s_])_(?![\p{L}\p{N}])/gu, "$1<em>$2</em>")
+      .replace(HELD, (_, index: string) => held[Number(index)]!);
+  }
+
+  function heading(level: number, text: string): string {
+    // The page title is the only `h1`; deeper levels than `h4` look like `h4`.
+    const shown = Math.min(Math.max(level, 2), 4);
+    const children = inline(text);
+    const plain = stripTags(children);
+    const id = uniqueId(plain);
+    if (shown <= 3) toc.push({ id, text: plain, level: shown });
+    return (
+      `<h${shown} id="${id}" class="group scroll-mt-24 ${HEADING_CLASSES[shown]}">${children}` +
+      ` <a href="#${id}" class="text-[#6e6e73] opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-blue-500 transition-opacity" aria-hidden="true" tabindex="-1">#</a>` +
+      `</h${shown}>`
+    );
+  }
+
+  function table(header: string, delimiter: string, rows: string[]): string {
+    const aligns = tableCells(delimiter).map(cellAlign);
+    const cells = (line: string, tag: "th" | "td") =>
+      aligns
+        .map((align, index) => {
+          const classes = tag === "th" ? "py-2 pr-4 font-medium text-white" : "py-2 pr-4";
+          return `<${tag} class="${classes} ${ALIGN_CLASSES[align]}">${inline(tableCells(line)[index] ?? "")}</${tag}>`;
+        })
+        .join("");
+    const row = (line: string, tag: "th" | "td") => `<tr class="border-b border-white/8">${cells(line, tag)}</tr>`;
+
+    return (
+      `<div class="mt-4 overflow-x-auto"><table class="w-full text-sm border-collapse">` +
+      `<thead>${row(header, "th")}</thead>` +
+      (rows.length > 0 ? `<tbody>${rows.map(line => row(line, "td")).join("")}</tbody>` : "") +
+      `</table></div>`
+    );
+  }
+
+  function listItem(lines: string[], tight: boolean, depth: number): string {
+    const task = lines[0]!.match(/^\[([ xX])\][ \t]+/);
+    if (!task) return `<li>${blocks(lines, tight, depth)}</li>`;
+
+    const checked = task[1] !== " ";
+    const content = [lines[0]!.slice(task[0].length), ...lines.slice(1)];
+    return (
+      `<li class="list-none -ml-6"><input type="checkbox" disabled${checked ? " checked" : ""} class="mr-2 align-middle" />` +
+      `${blocks(content, tight, depth)}</li>`
+    );
+  }
+
+  /**
+   * Renders the list starting at `lines[start]`, which ends at a line that
+   * is neither in an item nor starts another item of the same kind. Items
+   * separated by blank lines make the list loose: their text is paragraphs.
+   */
+  function list(lines: string[], start: number, depth: number): { html: string; next: number } {
+    const kind = (marker: string) => (/\d/.test(marker) ? "ordered" : marker);
+    const first = lines[start]!.match(ITEM)!;
+    const ordered = kind(first[2]!) === "ordered";
+    const items: string[][] = [];
+    let loose = false;
+    let index = start;
+
+    while (index < lines.length) {
+      const match = lines[index]!.match(ITEM);
+      if (!match || RULE.test(lines[index]!) || kind(match[2]!) !== kind(first[2]!)) break;
+      if (items.length > 0 && items.at(-1)!.at(-1) === "") loose = true;
+
+      // Text after the marker sets the indentation of the item's other lines.
+      const spacing = match[3]?.length ?? 0;
+      const width = match[1]!.length + match[2]!.length + (spacing === 0 || spacing > 4 ? 1 : spacing);
+      const item = [match[4] ?? ""];
+      index++;
+
+      while (index < lines.length) {
+        const line = lines[index]!;
+        if (!line.trim()) item.push("");
+        else if (indentOf(line) >= width) item.push(line.slice(width));
+        else if (item.at(-1) !== "" && !startsBlock(line)) item.push(line.trim());
+        else break;
+        index++;
+      }
+      items.push(item);
+    }
+
+    // Blank lines after the last item are between the list and what follows.
+    const last = items.at(-1)!;
+    while (last.at(-1) === "") last.pop();
+    for (const item of items) {
+      while (item.at(-1) === "") item.pop();
+    }
+
+    const tag = ordered ? "ol" : "ul";
+    const number = ordered ? Number.parseInt(first[2]!, 10) : 1;
+    const html =
+      `<${tag}${number !== 1 ? ` start="${number}"` : ""} class="${ordered ? "list-decimal" : "list-disc"} pl-6 space-y-1 ${depth === 0 ? "mt-4" : "mt-1"}">` +
+      `${items.map(item => listItem(item, !loose, depth + 1)).join("")}</${tag}>`;
+    return { html, next: index };
+  }
+
+  /**
+   * Renders a sequence of blocks, in list items `depth` lists deep; in tight
+   * list items, paragraphs are bare text.
+   */
+  function blocks(lines: string[], tight = false, depth = 0): string {
+    const html: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const line = lines[index]!;
+      if (!line.trim()) {
+        index++;
+        continue;
+      }
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        const [, indent = "", marker = "", info = ""] = fence;
+        const closing = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}[ \\t]*$`);
+        const code: string[] = [];
+        index++;
+        while (index < lines.length && !closing.test(lines[index]!)) {
+          code.push(lines[index]!.slice(Math.min(indent.length, indentOf(lines[index]!))));
+          index++;
+        }
+        index++;
+        html.push(
+          `<pre class="mt-4 p-4 rounded-xl bg-white/[0.04] border border-white/8 overflow-x-auto text-sm leading-relaxed">` +
+            `<code>${highlightCode(code.join("\n"), info || undefined)}</code></pre>`,
+        );
+        continue;
+      }
+
+      const title = line.match(HEADING);
+      if (title) {
+        html.push(heading(title[1]!.length, title[2] ?? ""));
+        index++;
+        continue;
+      }
+
+      if (RULE.test(line)) {
+        html.push(`<hr class="my-8 border-white/8" />`);
+        index++;
+        continue;
+      }
+
+      if (QUOTE.test(line)) {
+        const quoted: string[] = [];
+        while (index < lines.length && lines[index]!.trim()) {
+          const match = lines[index]!.match(QUOTE);
+          if (!match && startsBlock(lines[index]!)) break;
+          quoted.push(match ? match[1]! : lines[index]!);
+          index++;
+        }
+        html.push(`<blockquote class="mt-4 pl-4 border-l-2 border-white/20">${blocks(quoted, false, depth)}</blockquote>`);
+        continue;
+      }
+
+      if (ITEM.test(line)) {
+        const rendered = list(lines, index, depth);
+        html.push(rendered.html);
+        index = rendered.next;
+        continue;
+      }
+
+      const next = lines[index + 1];
+      if (line.includes("|") && next !== undefined && TABLE_DELIMITER.test(next)) {
+        const rows: string[] = [];
+        index += 2;
+        while (index < lines.length && lines[index]!.trim() && !startsBlock(lines[index]!)) {
+          rows.push(lines[index]!);
+          index++;
+        }
+        html.push(table(line, next, rows));
+        continue;
+      }
+
+      const paragraph: string[] = [];
+      while (index < lines.length && lines[index]!.trim() && (paragraph.length === 0 || !startsBlock(lines[index]!))) {
+        paragraph.push(lines[index]!.trimStart());
+        index++;
+      }
+      const text = inline(paragraph.join("\n"));
+      html.push(tight ? text : `<p class="mt-4">${text}</p>`);
+    }
+
+    return html.join(tight ? " " : "");
+  }
+
+  const lines = body.split(/\r?\n/).map(line => line.replace(/^\t+/, tabs => "    ".repeat(tabs.length)));
+  return { html: blocks(lines), toc };
+}
@@ -0,0 +1,51 @@
+import type { Language } from "../i18n/i18n";
+
+/** URL path of the documentation in the default language. */
+export const DOCS_PATH = "/docs";
+
+/** `id` of the JSON block a documentation page is hydrated from. */
+export const DOCS_DATA_ID = "docs-data";
+
+/** A heading of a page, for its table of contents. */
+export interface TocEntry {
+  id: string;
+  text: string;
+  /** 2 or 3. */
+  level: number;
+}
+
+/** A folder or page of the content directory, in the sidebar. */
+export interface DocsNode {
+  title: string;
+  /** For the overview at `/docs`. */
+  description?: string;
+  /** Localized URL path; absent for folders without an `index.md`. */
+  path?: string;
+  children: DocsNode[];
+}
+
+/** A page of the content directory, rendered. */
+export interface DocsArticle {
+  /** Localized URL path. */
+  path: string;
+  title: string;
+  description: string;
+  /** The body as HTML, with anchored headings and highlighted code. */
+  html: string;
+  toc: TocEntry[];
+  /** Where to edit the file the page was rendered from. */
+  editUrl: string;
+  /** Language of the text, which is English where there is no translation. */
+  language: Language;
+}
+
+/**
+ * Everything a documentation page renders: the sidebar and the article, or
+ * no article on the overview at `/docs` when the content directory has no
+ * `index.md`. Rendered on the server and at build time, and embedded in the
+ * page as JSON, which the browser hydrates from.
+ */
+export interface DocsView {
+  sidebar: DocsNode[];
+  article?: DocsArticle;
+}
@@ -0,0 +1,179 @@
+import { type Language, getTranslation, languages } from "./i18n/i18n";
+import { type PageDefinition, alternateUrls, canonicalUrl } from "./routes";
+import { APP_STORE_ID, SITE_NAME, SITE_URL } from "./site";
+
+/** Social preview image of pages that don't declare their own. */
+const DEFAULT_IMAGE = "/og.png";
+
+/** `<meta name>` tags of every page. Pages add their own with `meta`. */
+const SITE_META: Record<string, string> = {
+  author: "Vivy Technologies",
+  // Safari's Smart App Banner.
+  "apple-itunes-app": `app-id=${APP_STORE_ID}`,
+};
+
+/** Everything a page's `<head>` says about it, in one language. */
+export interface HeadMetadata {
+  title: string;
+  description: string;
+  robots: string;
+  /** Absent for documents served at many URLs, such as the 404 page. */
+  canonical?: string;
+  alternates: { hreflang: string; href: string }[];
+  openGraph: {
+    type: "website";
+    siteName: string;
+    title: string;
+    description: string;
+    url?: string;
+    image: string;
+    /** `og:locale` of the page, then of its other languages. */
+    locale: string;
+    alternateLocales: string[];
+  };
+  twitter: { card: "summary_large_image"; title: string; description: string; image: string };
+  meta: Record<string, string>;
+  structuredData: object[];
+}
+
+/** Open Graph locale of a language: `zh` → `zh_CN`. */
+function ogLocale(language: Language): string {
+  const { region } = new Intl.Locale(language).maximize();
+  return region ? `${language}_${region}` : language;
+}
+
+/** What a page says about itself in one language, from which its head metadata is made. */
+export interface PageDescription {
+  title: string;
+  description: string;
+  indexable: boolean;
+  canonical?: string;
+  alternates: { hreflang: string; href: string }[];
+  /** A path on the site; defaults to `/og.png`. */
+  image?: string;
+  meta?: Record<string, string>;
+  structuredData?: object[];
+}
+
+/**
+ * The head metadata of one language variant of a page. Pages of the registry
+ * get theirs from `headMetadata()`; generated ones, such as the
+ * documentation's, describe themselves.
+ */
+export function describedHeadMetadata(page: PageDescription, language: Language): HeadMetadata {
+  const { title, description, canonical } = page;
+  const image = SITE_URL + (page.image ?? DEFAULT_IMAGE);
+
+  return {
+    title,
+    description,
+    robots: page.indexable ? "index, follow" : "noindex",
+    canonical,
+    alternates: page.alternates,
+    openGraph: {
+      type: "website",
+      siteName: SITE_NAME,
+      title,
+      description,
+      url: canonical,
+      image,
+      locale: ogLocale(language),
+      alternateLocales: (Object.keys(languages) as Language[]).filter(other => other !== language).map(ogLocale),
+    },
+    twitter: { card: "summary_large_image", title, description, image },
+    meta: { ...SITE_META, ...page.meta },
+    structuredData: page.structuredData ?? [],
+  };
+}
+
+/** The head metadata of one language variant of a page, from the page registry. */
+export function headMetadata(page: PageDefinition, language: Language): HeadMetadata {
+  const canonical = page.canonical === false ? undefined : canonicalUrl(page, language);
+
+  return describedHeadMetadata(
+    {
+      title: getTranslation(language, page.title),
+      description: getTranslation(language, page.description),
+      indexable: page.indexable,
+      canonical,
+      alternates: canonical ? alternateUrls(page) : [],
+      image: page.image,
+      meta: page.meta,
+      structuredData: page.structuredData?.(language),
+    },
+    language,
+  );
+}
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// `<` is escaped so that no string in the data can close the script element.
+const jsonLdScript = (data: object, nonce?: string): string => {
+  const attributes = nonce ? ` nonce="${nonce}"` : "";
+  return `<script type="application/ld+json"${attributes}>${JSON.stringify(data).replace(/</g, "\\u003c")}</script>`;
+};
+
+const metaName = (name: string, content: string) => `<meta name="${name}" content="${escapeAttribute(content)}" />`;
+const metaProperty = (property: string, content: string) =>
+  `<meta property="${property}" content="${escapeAttribute(content)}" />`;
+
+/** The tags of `head`, in the order crawlers expect them. */
+export function renderHead(head: HeadMetadata, nonce?: string): string {
+  const { openGraph, twitter } = head;
+
+  return [
+    `<title>${escapeAttribute(head.title)}</title>`,
+    metaName("description", head.description),
+    metaName("robots", head.robots),
+    ...Object.entries(head.meta).map(([name, content]) => metaName(name, content)),
+    ...(head.canonical ? [`<link rel="canonical" href="${head.canonical}" />`] : []),
+    ...head.alternates.map(({ hreflang, href }) => `<link rel="alternate" hreflang="${hreflang}" href="${href}" />`),
+    metaProperty("og:type", openGraph.type),
+    metaProperty("og:site_name", openGraph.siteName),
+    metaProperty("og:title", openGraph.title),
+    metaProperty("og:description", openGraph.description),
+    ...(openGraph.url ? [metaProperty("og:url", openGraph.url)] : []),
+    metaProperty("og:image", openGraph.image),
+    metaProperty("og:locale", openGraph.locale),
+    ...openGraph.alternateLocales.map(locale => metaProperty("og:locale:alternate", locale)),
+    metaName("twitter:card", twitter.card),
+    metaName("twitter:title", twitter.title),
+    metaName("twitter:description", twitter.description),
+    metaName("twitter:image", twitter.image),
+    ...head.structuredData.map(data => jsonLdScript(data, nonce)),
+  ].join("");
+}
+
+/**
+ * Fills in the `<head>` of one language variant of a page from its metadata
+ * (see `headMetadata()`) and sets `<html lang>`. The HTML entry points only
+ * carry what the bundler needs. With a CSP `nonce`, every script gets it.
+ * Used by the dev server and by the build.
+ */
+export function renderDocument(response: Response, page: PageDefinition, language: Language, nonce?: string): Response {
+  return renderDocumentHead(response, headMetadata(page, language), language, nonce);
+}
+
+/** `renderDocument()` for pages outside the registry, with head metadata of their own. */
+export function renderDocumentHead(response: Response, metadata: HeadMetadata, language: Language, nonce?: string): Response {
+  const head = renderHead(metadata, nonce);
+
+  return new HTMLRewriter()
+    .on("html", {
+      element(element) {
+        element.setAttribute("lang", language);
+      },
+    })
+    .on("script", {
+      element(element) {
+        if (nonce) element.setAttribute("nonce", nonce);
+      },
+    })
+    .on("head", {
+      element(element) {
+        element.append(head, { html: true });
+      },
+    })
+    .transform(response);
+}
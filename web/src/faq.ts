@@ -0,0 +1,49 @@
+import { type Catalog, type Language, defaultLanguage, getTranslationObject, localizedPath } from "./i18n/i18n";
+import { FREE_LIMITS } from "./pricing";
+import { SITE_URL } from "./site";
+
+export type FAQCategory = keyof Catalog["faq"]["categories"];
+
+export interface FAQEntry {
+  /** Stable ID, used in the entry's anchor. */
+  id: string;
+  category?: FAQCategory;
+  question: string;
+  answer: string;
+}
+
+/** Anchor of a FAQ entry on the home page: `faq-icloud-sync` for vvterm.com/#faq-icloud-sync. */
+export const faqAnchor = (id: string): string => `faq-${id}`;
+
+/**
+ * The FAQ in the order of `en.json`, which also decides each entry's
+ * category. Entries missing from a locale are shown in English. Answers may
+ * mention the free-tier limits through `{workspaces}`-style placeholders.
+ */
+export function faqEntries(language: Language): FAQEntry[] {
+  const entries = (lang: Language) => getTranslationObject(lang, "faq.items", FREE_LIMITS) as readonly FAQEntry[];
+  const translated = new Map(entries(language).map(entry => [entry.id, entry]));
+
+  return entries(defaultLanguage).map(entry => {
+    const { question, answer } = translated.get(entry.id) ?? entry;
+    return { id: entry.id, category: entry.category, question, answer };
+  });
+}
+
+/** `FAQPage` structured data for the home page, from the same entries as the FAQ section. */
+export function faqStructuredData(language: Language): object {
+  const pageUrl = SITE_URL + localizedPath("/", language);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    "@id": `${pageUrl}#faq`,
+    inLanguage: language,
+    mainEntity: faqEntries(language).map(entry => ({
+      "@type": "Question",
+      "@id": `${pageUrl}#${faqAnchor(entry.id)}`,
+      name: entry.question,
+      acceptedAnswer: { "@type": "Answer", text: entry.answer },
+    })),
+  };
+}
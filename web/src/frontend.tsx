@@ -1,15 +1,6 @@
 import React from "react";
-import { createRoot } from "react-dom/client";
 import { App } from "./App";
+import { mount } from "./mount";
 import "./index.css";
 
-function start() {
-  const root = createRoot(document.getElementById("root")!);
-  root.render(<App />);
-}
-
-if (document.readyState === "loading") {
-  document.addEventListener("DOMContentLoaded", start);
-} else {
-  start();
-}
+mount(<App />);
@@ -1,33 +1,69 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
-import { Language, languages, saveLanguage, getTranslation, detectLanguage } from "./i18n";
+import React, { createContext, use, useContext } from "react";
+import {
+  type Language,
+  type TranslationKey,
+  type TranslationListKey,
+  type TranslationObjectKey,
+  type TranslationValue,
+  languages,
+  saveLanguage,
+  getTranslation,
+  getTranslationList,
+  getTranslationObject,
+  detectLanguage,
+  localizedPath,
+  stripLanguagePrefix,
+  isCatalogLoaded,
+  loadCatalog,
+} from "./i18n";
+import type { MessageValues } from "./format";
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string) => string;
+  /** Looks up a message, formatting placeholders, plurals and numbers with `values`. */
+  t: (key: TranslationKey, values?: MessageValues) => string;
+  /** Looks up a list of messages, formatting each with `values`. */
+  tList: (key: TranslationListKey, values?: MessageValues) => string[];
+  /** Looks up a nested object or array, typed after `en.json`, formatting its messages with `values`. */
+  tObject: <K extends TranslationObjectKey>(key: K, values?: MessageValues) => TranslationValue<K>;
   availableLanguages: typeof languages;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-export function LanguageProvider({ children }: { children: React.ReactNode }) {
-  const [language, setLanguageState] = useState<Language>("en");
-
-  useEffect(() => {
-    setLanguageState(detectLanguage());
-  }, []);
+/**
+ * Provides the page language. In the browser it comes from the URL prefix;
+ * the prerenderer passes it explicitly. Until the language's catalog has
+ * loaded the provider suspends, so the page never renders English or raw
+ * keys in its place (`mount()` normally loads it before the first render).
+ */
+export function LanguageProvider({ language: languageProp, children }: { language?: Language; children: React.ReactNode }) {
+  const language = languageProp ?? detectLanguage();
+  if (!isCatalogLoaded(language)) {
+    use(loadCatalog(language));
+  }
 
   const setLanguage = (lang: Language) => {
-    setLanguageState(lang);
     saveLanguage(lang);
+    const { pathname, search, hash } = window.location;
+    window.location.assign(localizedPath(stripLanguagePrefix(pathname), lang) + search + hash);
+  };
+
+  const t = (key: TranslationKey, values?: MessageValues): string => {
+    return getTranslation(language, key, values);
+  };
+
+  const tList = (key: TranslationListKey, values?: MessageValues): string[] => {
+    return getTranslationList(language, key, values);
   };
 
-  const t = (key: string): string => {
-    return getTranslation(language, key);
+  const tObject = <K extends TranslationObjectKey>(key: K, values?: MessageValues): TranslationValue<K> => {
+    return getTranslationObject(language, key, values);
   };
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t, availableLanguages: languages }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, tList, tObject, availableLanguages: languages }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -0,0 +1,97 @@
+import { formatMessage } from "./format";
+
+/** Shape of a catalog value; metadata fields carry their value, since it must match exactly. */
+type Shape = "string" | "list" | "object" | "array" | "other" | `metadata:${string}`;
+
+/**
+ * Fields of catalog entries that identify or classify them rather than hold
+ * text, such as a FAQ entry's `id` and `category`. Every locale repeats them
+ * from `en.json` unchanged, and they are not exported for translation.
+ */
+export const METADATA_KEYS: ReadonlySet<string> = new Set(["id", "category"]);
+
+export interface CatalogDiff {
+  /** Keys present in the reference catalog but not in the locale. */
+  missing: string[];
+  /** Keys present in the locale but not in the reference catalog. */
+  extra: string[];
+  /** Keys present in both whose values have a different shape, or a different metadata value. */
+  mismatched: string[];
+}
+
+function shapeOf(value: unknown): Shape {
+  if (typeof value === "string") return "string";
+  if (Array.isArray(value)) return value.every(item => typeof item === "string") ? "list" : "array";
+  if (typeof value === "object" && value !== null) return "object";
+  return "other";
+}
+
+/**
+ * Key path segments of the children of an object or array. Array items are
+ * keyed by their `id` when they have one (FAQ entries), so locales can list
+ * them in any order, and by index otherwise (rich text sections).
+ */
+export function catalogEntries(value: object): [string, unknown][] {
+  if (!Array.isArray(value)) return Object.entries(value);
+  return value.map((item, index) => {
+    const id = typeof item === "object" && item !== null ? (item as { id?: unknown }).id : undefined;
+    return [typeof id === "string" ? id : String(index), item];
+  });
+}
+
+/**
+ * Flattens a catalog into dotted key paths and the shape of each value.
+ * String lists are leaves, since their length is up to the translator;
+ * arrays of objects are compared item by item.
+ */
+function flatten(value: unknown, prefix = "", into = new Map<string, Shape>()): Map<string, Shape> {
+  const shape = shapeOf(value);
+  if (shape === "object" || shape === "array") {
+    for (const [key, child] of catalogEntries(value as object)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (METADATA_KEYS.has(key) && typeof child === "string") {
+        into.set(path, `metadata:${child}`);
+      } else {
+        flatten(child, path, into);
+      }
+    }
+  } else {
+    into.set(prefix, shape);
+  }
+  return into;
+}
+
+/** Compares the key shape of a locale catalog against the reference catalog. */
+export function compareCatalogs(reference: unknown, catalog: unknown): CatalogDiff {
+  const expected = flatten(reference);
+  const actual = flatten(catalog);
+
+  return {
+    missing: [...expected.keys()].filter(key => !actual.has(key)),
+    extra: [...actual.keys()].filter(key => !expected.has(key)),
+    mismatched: [...expected].filter(([key, shape]) => actual.has(key) && actual.get(key) !== shape).map(([key]) => key),
+  };
+}
+
+/** Keys of messages in a catalog that are not valid ICU message syntax. */
+export function invalidMessages(catalog: unknown, locale: string): { key: string; error: string }[] {
+  const invalid: { key: string; error: string }[] = [];
+
+  const visit = (value: unknown, prefix: string) => {
+    if (typeof value === "string") {
+      try {
+        formatMessage(value, locale);
+      } catch (error) {
+        invalid.push({ key: prefix, error: (error as Error).message });
+      }
+    } else if (typeof value === "object" && value !== null) {
+      for (const [key, child] of catalogEntries(value)) {
+        if (METADATA_KEYS.has(key)) continue;
+        visit(child, prefix ? `${prefix}.${key}` : key);
+      }
+    }
+  };
+
+  visit(catalog, "");
+  return invalid;
+}
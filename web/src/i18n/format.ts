@@ -0,0 +1,218 @@
+/**
+ * A subset of ICU MessageFormat, enough for the website's catalogs:
+ *
+ * - `{name}` inserts a value
+ * - `{price, number}`, `{price, number, currency}`, `{ratio, number, percent}`
+ *   and `{count, number, integer}` format numbers with `Intl.NumberFormat`;
+ *   `currency` takes its ISO code from the `currency` value (default USD)
+ * - `{count, plural, =0 {none} one {# server} other {# servers}}` picks a
+ *   branch with `Intl.PluralRules`, `#` being the formatted count
+ * - `{kind, select, ios {…} other {…}}` picks a branch by value
+ *
+ * Apostrophes quote syntax characters as in ICU (`'{'` is a literal brace,
+ * `''` a literal apostrophe); an apostrophe before anything else, as in
+ * "You're", is just an apostrophe.
+ */
+
+export type MessageValues = Record<string, string | number>;
+
+type MessageNode =
+  | { type: "text"; value: string }
+  | { type: "argument"; name: string }
+  | { type: "number"; name: string; style?: string }
+  | { type: "plural" | "select"; name: string; options: Record<string, MessageNode[]> }
+  | { type: "pound" };
+
+class MessageParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.pos < this.source.length) {
+      throw this.error("Unexpected }");
+    }
+    return nodes;
+  }
+
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) nodes.push({ type: "text", value: text });
+      text = "";
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos]!;
+
+      if (char === "}") break;
+
+      if (char === "{") {
+        flush();
+        nodes.push(this.parseArgument(inPlural));
+      } else if (char === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound" });
+        this.pos++;
+      } else if (char === "'") {
+        text += this.parseQuoted(inPlural);
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  private parseQuoted(inPlural: boolean): string {
+    const next = this.source[this.pos + 1];
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+    if (next !== "{" && next !== "}" && !(next === "#" && inPlural)) {
+      this.pos++;
+      return "'";
+    }
+
+    const end = this.source.indexOf("'", this.pos + 1);
+    const quoted = this.source.slice(this.pos + 1, end === -1 ? undefined : end);
+    this.pos = end === -1 ? this.source.length : end + 1;
+    return quoted;
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    this.pos++; // {
+    const name = this.readUntil(",}");
+
+    if (this.source[this.pos] === "}") {
+      this.pos++;
+      return { type: "argument", name };
+    }
+
+    this.pos++; // ,
+    const type = this.readUntil(",}");
+
+    if (type === "number") {
+      let style: string | undefined;
+      if (this.source[this.pos] === ",") {
+        this.pos++;
+        style = this.readUntil("}");
+      }
+      this.expect("}");
+      return { type: "number", name, style };
+    }
+
+    if (type === "plural" || type === "select") {
+      this.expect(",");
+      const options: Record<string, MessageNode[]> = {};
+
+      for (;;) {
+        this.skipWhitespace();
+        if (this.source[this.pos] === "}") break;
+
+        const selector = this.readUntil("{");
+        if (!selector) throw this.error(`Missing selector in ${type}`);
+        this.expect("{");
+        // `#` refers to the closest plural, including from a nested select.
+        options[selector] = this.parseNodes(type === "plural" || inPlural);
+        this.expect("}");
+      }
+
+      this.expect("}");
+      if (!options.other) throw this.error(`Missing "other" branch for ${name}`);
+      return { type, name, options };
+    }
+
+    throw this.error(`Unsupported argument type "${type}"`);
+  }
+
+  private readUntil(stops: string): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && !stops.includes(this.source[this.pos]!)) {
+      this.pos++;
+    }
+    if (this.pos >= this.source.length) throw this.error("Unterminated argument");
+    return this.source.slice(start, this.pos).trim();
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.pos] ?? "")) this.pos++;
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace();
+    if (this.source[this.pos] !== char) throw this.error(`Expected ${char}`);
+    this.pos++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} at ${this.pos} in message "${this.source}"`);
+  }
+}
+
+const parsed = new Map<string, MessageNode[]>();
+
+function parseMessage(message: string): MessageNode[] {
+  let nodes = parsed.get(message);
+  if (!nodes) {
+    nodes = new MessageParser(message).parse();
+    parsed.set(message, nodes);
+  }
+  return nodes;
+}
+
+function numberFormat(locale: string, style: string | undefined, values: MessageValues): Intl.NumberFormat {
+  switch (style) {
+    case "currency":
+      return new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency: String(values.currency ?? "USD"),
+        trailingZeroDisplay: "stripIfInteger",
+      });
+    case "percent":
+      return new Intl.NumberFormat(locale, { style: "percent" });
+    case "integer":
+      return new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+    default:
+      return new Intl.NumberFormat(locale);
+  }
+}
+
+function formatNodes(nodes: MessageNode[], locale: string, values: MessageValues, count?: number): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "pound":
+          return count === undefined ? "#" : new Intl.NumberFormat(locale).format(count);
+        case "argument":
+          return node.name in values ? String(values[node.name]) : `{${node.name}}`;
+        case "number":
+          return node.name in values
+            ? numberFormat(locale, node.style, values).format(Number(values[node.name]))
+            : `{${node.name}}`;
+        case "plural": {
+          const value = Number(values[node.name]);
+          const branch = node.options[`=${value}`] ?? node.options[new Intl.PluralRules(locale).select(value)];
+          return formatNodes(branch ?? node.options.other!, locale, values, value);
+        }
+        case "select": {
+          const branch = node.options[String(values[node.name])] ?? node.options.other!;
+          return formatNodes(branch, locale, values, count);
+        }
+      }
+    })
+    .join("");
+}
+
+/** Formats an ICU message in the given locale. */
+export function formatMessage(message: string, locale: string, values: MessageValues = {}): string {
+  if (!/[{'#]/.test(message)) return message;
+  return formatNodes(parseMessage(message), locale, values);
+}
@@ -1,51 +1,160 @@
 import en from "./translations/en.json";
-import zh from "./translations/zh.json";
+import { type MessageValues, formatMessage } from "./format";
 
-export type Language = "en" | "zh";
+/** Shape of a translation catalog. `en.json` is the reference every locale must match. */
+export type Catalog = typeof en;
 
-export const languages: Record<Language, string> = {
-  en: "English",
-  zh: "中文",
-};
+/**
+ * Catalog loaders, one per supported language. English is bundled inline as
+ * the fallback; every other catalog is split into its own chunk and fetched
+ * only by pages in that language. Adding a language means adding its JSON
+ * file and a line here.
+ */
+const catalogLoaders = {
+  en: async () => en,
+  zh: async () => (await import("./translations/zh.json")).default,
+} satisfies Record<string, () => Promise<Catalog>>;
 
-export const translations: Record<Language, typeof en> = {
-  en,
-  zh,
-};
+export type Language = keyof typeof catalogLoaders;
 
-const STORAGE_KEY = "vvterm-language";
+/** Supported languages with their names in their own language: `{ zh: "中文" }`. */
+export const languages = Object.fromEntries(
+  Object.keys(catalogLoaders).map(lang => [lang, new Intl.DisplayNames([lang], { type: "language" }).of(lang)]),
+) as Record<Language, string>;
 
-export function detectLanguage(): Language {
-  if (typeof window === "undefined") return "en";
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (stored && (stored === "en" || stored === "zh")) {
-    return stored as Language;
-  }
-  const browserLang = navigator.language.toLowerCase();
-  if (browserLang.startsWith("zh")) {
-    return "zh";
+const loadedCatalogs: Partial<Record<Language, Catalog>> = { en };
+const pendingCatalogs = new Map<Language, Promise<Catalog>>();
+
+/** Fetches a language's catalog once; later calls return the same promise. */
+export function loadCatalog(lang: Language): Promise<Catalog> {
+  let pending = pendingCatalogs.get(lang);
+  if (!pending) {
+    pending = catalogLoaders[lang]().then(catalog => (loadedCatalogs[lang] = catalog));
+    pendingCatalogs.set(lang, pending);
   }
-  return "en";
+  return pending;
+}
+
+/** Loads every catalog, for code that translates synchronously into any language (server, build). */
+export async function loadAllCatalogs(): Promise<void> {
+  await Promise.all((Object.keys(catalogLoaders) as Language[]).map(loadCatalog));
+}
+
+export function isCatalogLoaded(lang: Language): boolean {
+  return lang in loadedCatalogs;
+}
+
+/** Dotted key paths into `T` whose values are assignable to `V`. Arrays are leaves. */
+type KeyPaths<T, V, Prefix extends string = ""> = {
+  [K in keyof T & string]:
+    | (T[K] extends V ? `${Prefix}${K}` : never)
+    | (T[K] extends readonly unknown[] ? never : T[K] extends object ? KeyPaths<T[K], V, `${Prefix}${K}.`> : never);
+}[keyof T & string];
+
+type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<T[Head], Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+/** Keys of plain strings, for `t()`. */
+export type TranslationKey = KeyPaths<Catalog, string>;
+/** Keys of string lists such as `pricing.free.features`, for `tList()`. */
+export type TranslationListKey = KeyPaths<Catalog, readonly string[]>;
+/** Keys of nested objects and arrays such as `privacy.sections`, for `tObject()`. */
+export type TranslationObjectKey = KeyPaths<Catalog, object>;
+export type TranslationValue<K extends string> = PathValue<Catalog, K>;
+
+/** Language served at unprefixed URLs; every other language lives under `/<lang>/`. */
+export const defaultLanguage: Language = "en";
+
+/** Cookie holding the visitor's language choice, read by the server to pick a locale. */
+export const LANGUAGE_COOKIE = "vvterm-language";
+
+export function isLanguage(value: string | null | undefined): value is Language {
+  return !!value && Object.hasOwn(languages, value);
+}
+
+/** Returns the language of a URL path from its `/<lang>` prefix. */
+export function languageFromPath(pathname: string): Language {
+  const prefix = pathname.split("/")[1];
+  return isLanguage(prefix) && prefix !== defaultLanguage ? prefix : defaultLanguage;
+}
+
+/** Removes the `/<lang>` prefix from a URL path: `/zh/privacy` → `/privacy`. */
+export function stripLanguagePrefix(pathname: string): string {
+  const language = languageFromPath(pathname);
+  if (language === defaultLanguage) return pathname;
+  return pathname.slice(language.length + 1) || "/";
+}
+
+/** Returns the URL of a page in the given language: `/privacy` → `/zh/privacy`. */
+export function localizedPath(path: string, lang: Language): string {
+  if (lang === defaultLanguage) return path;
+  return `/${lang}${path}`;
+}
+
+export function detectLanguage(): Language {
+  if (typeof window === "undefined") return defaultLanguage;
+  return languageFromPath(window.location.pathname);
 }
 
 export function saveLanguage(lang: Language): void {
-  localStorage.setItem(STORAGE_KEY, lang);
-}
-
-export function getTranslation(lang: Language, key: string): string {
-  const keys = key.split(".");
-  let value: any = translations[lang];
-
-  for (const k of keys) {
-    value = value?.[k];
-    if (value === undefined) {
-      value = translations.en;
-      for (const k2 of keys) {
-        value = value?.[k2];
-      }
-      break;
-    }
+  document.cookie = `${LANGUAGE_COOKIE}=${lang}; path=/; max-age=31536000; samesite=lax`;
+}
+
+function lookup(catalog: unknown, key: string): unknown {
+  return key.split(".").reduce<any>((value, k) => value?.[k], catalog);
+}
+
+/**
+ * Resolves a key in the given language, falling back to English (also while
+ * the language's catalog has not loaded yet). Keys are
+ * type-checked against `en.json`, so a miss means a catalog is out of shape;
+ * it is logged instead of silently rendering the key.
+ */
+function resolve(lang: Language, key: string, isValid: (value: unknown) => boolean): unknown {
+  for (const catalog of [loadedCatalogs[lang], en]) {
+    const value = lookup(catalog, key);
+    if (isValid(value)) return value;
+  }
+
+  console.error(`Missing translation for "${key}" (${lang})`);
+  return undefined;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isObject = (value: unknown): value is object => typeof value === "object" && value !== null;
+
+/** Looks up a message and formats it with `values` (see `format.ts` for the syntax). */
+export function getTranslation(lang: Language, key: TranslationKey, values?: MessageValues): string {
+  const message = resolve(lang, key, isString) as string | undefined;
+  return message === undefined ? key : formatMessage(message, lang, values);
+}
+
+/** Looks up a list of messages and formats each one with `values`. */
+export function getTranslationList(lang: Language, key: TranslationListKey, values?: MessageValues): string[] {
+  const messages = (resolve(lang, key, isStringList) as string[] | undefined) ?? [];
+  return messages.map(message => formatMessage(message, lang, values));
+}
+
+function formatDeep(value: unknown, lang: Language, values?: MessageValues): unknown {
+  if (typeof value === "string") return formatMessage(value, lang, values);
+  if (Array.isArray(value)) return value.map(item => formatDeep(item, lang, values));
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, formatDeep(v, lang, values)]));
   }
+  return value;
+}
 
-  return value || key;
+/** Looks up a nested object or array and formats every message in it with `values`. */
+export function getTranslationObject<K extends TranslationObjectKey>(
+  lang: Language,
+  key: K,
+  values?: MessageValues,
+): TranslationValue<K> {
+  return formatDeep(resolve(lang, key, isObject), lang, values) as TranslationValue<K>;
 }
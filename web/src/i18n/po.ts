@@ -0,0 +1,87 @@
+import type { TranslationUnit } from "./units";
+
+/**
+ * gettext PO export and import. Each catalog string is an entry whose
+ * `msgctxt` is its key path; out-of-date translations are marked `fuzzy`
+ * with the English text they were translated from as the previous `msgid`.
+ */
+
+const escapePo = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n").replace(/\t/g, "\\t");
+
+const unescapePo = (text: string) =>
+  text.replace(/\\(.)/g, (_, char: string) => ({ n: "\n", t: "\t" })[char] ?? char);
+
+export function toPo(units: TranslationUnit[], sourceLanguage: string, targetLanguage: string): string {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    `"Language: ${targetLanguage}\\n"`,
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    `"X-Source-Language: ${sourceLanguage}\\n"`,
+  ].join("\n");
+
+  const entries = units.map(unit => {
+    const lines: string[] = [];
+    if (unit.fuzzy) lines.push("#, fuzzy");
+    if (unit.previousSource !== undefined) lines.push(`#| msgid "${escapePo(unit.previousSource)}"`);
+    lines.push(
+      `msgctxt "${escapePo(unit.id)}"`,
+      `msgid "${escapePo(unit.source)}"`,
+      `msgstr "${escapePo(unit.target ?? "")}"`,
+    );
+    return lines.join("\n");
+  });
+
+  return [header, ...entries].join("\n\n") + "\n";
+}
+
+/**
+ * Reads the entries of a PO file. Entries without a `msgctxt` (including the
+ * header) carry no catalog key and are skipped, as are obsolete `#~` ones.
+ */
+export function parsePo(po: string): { targetLanguage?: string; units: TranslationUnit[] } {
+  const units: TranslationUnit[] = [];
+  let targetLanguage: string | undefined;
+
+  for (const block of po.split(/\r?\n\s*\r?\n/)) {
+    const fields: Record<string, string> = {};
+    let field: string | undefined;
+    let fuzzy = false;
+    let previousSource: string | undefined;
+
+    for (const line of block.split(/\r?\n/).map(line => line.trim())) {
+      if (line.startsWith("#,")) {
+        fuzzy ||= line.slice(2).split(",").some(flag => flag.trim() === "fuzzy");
+      } else if (line.startsWith("#| msgid ")) {
+        previousSource = unescapePo(line.slice(9).replace(/^"|"$/g, ""));
+      } else if (line.startsWith("#") || !line) {
+        continue;
+      } else if (line.startsWith('"')) {
+        if (field) fields[field] += unescapePo(line.slice(1, -1));
+      } else {
+        const match = line.match(/^(msgctxt|msgid|msgstr)\s+"(.*)"$/);
+        if (!match) throw new Error(`Unexpected line in PO file: ${line}`);
+        field = match[1]!;
+        fields[field] = unescapePo(match[2]!);
+      }
+    }
+
+    if (fields.msgid === "" && fields.msgctxt === undefined) {
+      targetLanguage = fields.msgstr?.match(/^Language:\s*(\S+)$/m)?.[1];
+    }
+    if (fields.msgctxt === undefined || fields.msgid === undefined) continue;
+
+    units.push({
+      id: fields.msgctxt,
+      source: fields.msgid,
+      target: fields.msgstr || undefined,
+      previousSource,
+      fuzzy,
+    });
+  }
+
+  return { targetLanguage, units };
+}
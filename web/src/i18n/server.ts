@@ -0,0 +1,28 @@
+import { type Language, defaultLanguage, isLanguage } from "./i18n";
+
+/**
+ * Picks the best supported language for an `Accept-Language` header,
+ * honouring quality values and matching on the primary subtag
+ * (`zh-CN` → `zh`). Falls back to the default language.
+ */
+export function negotiateLanguage(header: string | null): Language {
+  if (!header) return defaultLanguage;
+
+  const ranges = header
+    .split(",")
+    .map(part => {
+      const [tag = "", ...params] = part.trim().split(";");
+      const quality = params.map(param => param.trim()).find(param => param.startsWith("q="));
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(range => range.tag && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    if (tag === "*") return defaultLanguage;
+    const primary = tag.split("-")[0];
+    if (isLanguage(primary)) return primary;
+  }
+
+  return defaultLanguage;
+}
@@ -0,0 +1,154 @@
+import { METADATA_KEYS, catalogEntries } from "./check";
+
+/**
+ * Translation units: the strings of a catalog keyed by their dotted path, the
+ * form translators work with in XLIFF and PO files. Array items get their
+ * `id` or index as a path segment (`faq.items.sync.answer`,
+ * `pricing.free.features.0`), so a catalog can be rebuilt from units with
+ * its nested structure and lists intact. Metadata fields (`METADATA_KEYS`)
+ * are not translated; rebuilt catalogs copy them from the reference.
+ *
+ * Alongside each locale catalog, a source record (`<lang>.sources.json`)
+ * keeps the English text every translation was made from. When `en.json`
+ * changes, units whose source no longer matches are exported as needing
+ * review.
+ */
+
+export interface TranslationUnit {
+  /** Dotted key path into the catalog, also the translator's context. */
+  id: string;
+  /** English text. */
+  source: string;
+  target?: string;
+  /** English text the target was translated from, when it has changed since. */
+  previousSource?: string;
+  /** Whether the target is a draft or out of date (PO `fuzzy`, XLIFF `initial`). */
+  fuzzy: boolean;
+}
+
+/** English source text of each translation in a locale catalog, keyed by unit ID. */
+export type SourceRecord = Record<string, string>;
+
+export interface ImportResult {
+  catalog: unknown;
+  sources: SourceRecord;
+  translated: number;
+  fuzzy: number;
+  /** Unit IDs of the reference catalog still without a translation. */
+  untranslated: string[];
+  /** Unit IDs in the imported file that the reference catalog doesn't have. */
+  unknown: string[];
+}
+
+/** Flattens a catalog into its strings keyed by unit ID, in catalog order. */
+export function catalogStrings(value: unknown, prefix = "", into = new Map<string, string>()): Map<string, string> {
+  if (typeof value === "string") {
+    into.set(prefix, value);
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, child] of catalogEntries(value)) {
+      if (METADATA_KEYS.has(key)) continue;
+      catalogStrings(child, prefix ? `${prefix}.${key}` : key, into);
+    }
+  }
+  return into;
+}
+
+/**
+ * Rebuilds a catalog in the shape of `reference` from translated strings.
+ * Strings without a translation are left out (and list items shift up), so
+ * `check:i18n` reports them instead of English text passing as translated.
+ */
+function rebuild(reference: unknown, strings: Map<string, string>, prefix = ""): unknown {
+  if (typeof reference === "string") return strings.get(prefix);
+
+  const child = (key: string, value: unknown) => rebuild(value, strings, prefix ? `${prefix}.${key}` : key);
+
+  if (Array.isArray(reference)) {
+    const items = catalogEntries(reference)
+      .map(([key, value]) => child(key, value))
+      .filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+
+  if (typeof reference === "object" && reference !== null) {
+    const entries = catalogEntries(reference)
+      .map(([key, value]) => [key, METADATA_KEYS.has(key) ? value : child(key, value)] as const)
+      .filter(([, value]) => value !== undefined);
+    const translated = entries.some(([key]) => !METADATA_KEYS.has(key));
+    return translated ? Object.fromEntries(entries) : undefined;
+  }
+
+  return undefined;
+}
+
+/** Lists the units of a locale catalog, flagging those whose English source changed. */
+export function exportUnits(reference: unknown, catalog: unknown, sources: SourceRecord): TranslationUnit[] {
+  const targets = catalogStrings(catalog);
+
+  return [...catalogStrings(reference)].map(([id, source]) => {
+    const target = targets.get(id);
+    const recorded = sources[id];
+    const previousSource = target !== undefined && recorded !== undefined && recorded !== source ? recorded : undefined;
+    return { id, source, target, previousSource, fuzzy: previousSource !== undefined };
+  });
+}
+
+/**
+ * Merges translated units into a locale catalog. Units without a target keep
+ * the catalog's current translation. Only final (non-fuzzy) translations
+ * update the source record, so drafts stay flagged on the next export.
+ */
+export function importUnits(
+  reference: unknown,
+  catalog: unknown,
+  sources: SourceRecord,
+  units: TranslationUnit[],
+): ImportResult {
+  const referenceStrings = catalogStrings(reference);
+  const strings = catalogStrings(catalog);
+  const updatedSources = { ...sources };
+  const result = { translated: 0, fuzzy: 0, unknown: [] as string[] };
+
+  for (const unit of units) {
+    const source = referenceStrings.get(unit.id);
+    if (source === undefined) {
+      result.unknown.push(unit.id);
+      continue;
+    }
+    if (!unit.target) continue;
+
+    strings.set(unit.id, unit.target);
+    if (unit.fuzzy) {
+      result.fuzzy++;
+    } else {
+      updatedSources[unit.id] = source;
+      result.translated++;
+    }
+  }
+
+  const rebuilt = rebuild(reference, strings) ?? {};
+  const rebuiltStrings = catalogStrings(rebuilt);
+
+  return {
+    ...result,
+    catalog: rebuilt,
+    sources: recordSources(reference, rebuilt, updatedSources),
+    untranslated: [...referenceStrings.keys()].filter(id => !rebuiltStrings.has(id)),
+  };
+}
+
+/**
+ * Builds the source record of a catalog in reference order. Translations
+ * missing from `sources` are recorded against the current English text, for
+ * catalogs edited by hand alongside `en.json`.
+ */
+export function recordSources(reference: unknown, catalog: unknown, sources: SourceRecord = {}): SourceRecord {
+  const referenceStrings = catalogStrings(reference);
+  const translated = catalogStrings(catalog);
+
+  return Object.fromEntries(
+    [...referenceStrings]
+      .filter(([id]) => translated.has(id))
+      .map(([id, source]) => [id, sources[id] ?? source]),
+  );
+}
@@ -0,0 +1,89 @@
+import type { TranslationUnit } from "./units";
+
+/**
+ * XLIFF 2.0 export and import. Each catalog string is a `<unit>` whose ID is
+ * its key path; out-of-date translations are in the `initial` state with the
+ * English text they were translated from in a `source-changed` note.
+ */
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function unescapeXml(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1]!;
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const hex = entity[1]!.toLowerCase() === "x";
+      return String.fromCodePoint(parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10));
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const value = tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+  return value === undefined ? undefined : unescapeXml(value);
+}
+
+export function toXliff(units: TranslationUnit[], sourceLanguage: string, targetLanguage: string): string {
+  const body = units.map(unit => {
+    const state = unit.target === undefined || unit.fuzzy ? "initial" : "translated";
+    const lines = [`    <unit id="${escapeXml(unit.id)}" name="${escapeXml(unit.id)}">`];
+    if (unit.previousSource !== undefined) {
+      lines.push(
+        "      <notes>",
+        `        <note category="source-changed">${escapeXml(unit.previousSource)}</note>`,
+        "      </notes>",
+      );
+    }
+    lines.push(`      <segment state="${state}">`, `        <source>${escapeXml(unit.source)}</source>`);
+    if (unit.target !== undefined) {
+      lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+    }
+    lines.push("      </segment>", "    </unit>");
+    return lines.join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+    `  <file id="${targetLanguage}" original="src/i18n/translations/${sourceLanguage}.json">`,
+    ...body,
+    "  </file>",
+    "</xliff>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Reads the units of an XLIFF 2.0 document. Only what `toXliff` writes is
+ * understood: plain-text segments, one per unit.
+ */
+export function parseXliff(xml: string): { targetLanguage?: string; units: TranslationUnit[] } {
+  const root = xml.match(/<xliff\b[^>]*>/)?.[0];
+  if (!root || attribute(root, "version") !== "2.0") {
+    throw new Error("Not an XLIFF 2.0 document");
+  }
+
+  const units = [...xml.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)].map(([, attributes, content]) => {
+    const id = attribute(attributes!, "id");
+    if (!id) throw new Error("XLIFF unit without an id");
+
+    const segment = content!.match(/<segment\b[^>]*>/)?.[0] ?? "";
+    const source = content!.match(/<source\b[^>]*>([\s\S]*?)<\/source>/)?.[1];
+    const target = content!.match(/<target\b[^>]*>([\s\S]*?)<\/target>/)?.[1];
+    const previousSource = content!.match(/<note\b[^>]*category="source-changed"[^>]*>([\s\S]*?)<\/note>/)?.[1];
+
+    return {
+      id,
+      source: unescapeXml(source ?? ""),
+      target: target === undefined ? undefined : unescapeXml(target),
+      previousSource: previousSource === undefined ? undefined : unescapeXml(previousSource),
+      fuzzy: (attribute(segment, "state") ?? "initial") === "initial",
+    };
+  });
+
+  return { targetLanguage: attribute(root, "trgLang"), units };
+}
@@ -1,23 +1,373 @@
-import { serve } from "bun";
-import index from "./index.html";
-import privacy from "./privacy/index.html";
-import terms from "./terms/index.html";
-import refund from "./refund/index.html";
-import thanks from "./thanks/index.html";
+import { serve, type BunRequest, type HTMLBundle, type Server } from "bun";
+import { randomBytes } from "crypto";
+import { existsSync } from "fs";
+import path from "path";
+import { eventRoute, statsRoute } from "./analytics/server";
+import { loadCertificates } from "./appstore/jws";
+import { appStoreAdminRoute, notificationRoute } from "./appstore/server";
+import { openAppStoreStore } from "./appstore/store";
+import { openStatsStore } from "./analytics/store";
+import { cspReportRoute, openCspReportStore } from "./csp-reports";
+import { docsHead, docsPaths, docsView, loadDocs, renderDocsDocument } from "./docs/content";
+import { DOCS_PATH } from "./docs/view";
+import {
+  type Language,
+  LANGUAGE_COOKIE,
+  defaultLanguage,
+  languageFromPath,
+  languages,
+  loadAllCatalogs,
+  localizedPath,
+  stripLanguagePrefix,
+} from "./i18n/i18n";
+import { negotiateLanguage } from "./i18n/server";
+import { renderDocument } from "./document";
+import { mailTransport } from "./mail";
+import { CONFIRM_PATH, SUBSCRIBE_ENDPOINT, UNSUBSCRIBE_ENDPOINT } from "./newsletter/form";
+import { confirmRoute, subscribeRoute, unsubscribeRoute } from "./newsletter/server";
+import { openNewsletterStore } from "./newsletter/store";
+import { rateLimiter } from "./rate-limit";
+import { resolveRedirect } from "./redirects";
+import { type Page, type PageDefinition, docsTemplate, documents, notFoundPage, pages } from "./routes";
+import {
+  type CspMode,
+  type ScriptSources,
+  CSP_HASHES_FILE,
+  CSP_REPORT_PATH,
+  createNonce,
+  securityHeaders,
+} from "./security";
+import { APP_BUNDLE_ID, SITE_URL, SUPPORT_EMAIL } from "./site";
+import { sitemapXml } from "./sitemap";
+import { type StaticFile, indexStaticFiles, serveStaticFile } from "./static";
+import { LOG_ENDPOINT, SUPPORT_ENDPOINT } from "./tickets/form";
+import { forwardPendingTickets, logRoute, logUploadRoute, supportRoute } from "./tickets/server";
+import { openTicketStore } from "./tickets/store";
+
+// In production the server serves the output of `build.ts`: prerendered,
+// localized pages and hashed assets. The dev server bundles the HTML
+// imports itself.
+const production = process.env.NODE_ENV === "production";
+const DIST_DIR = path.join(import.meta.dir, "..", "dist");
+
+// Set `CSP_MODE=report-only` to try out a change to the policy (`security.ts`)
+// without breaking pages; violations are collected at `/api/csp-report`.
+const cspMode: CspMode = process.env.CSP_MODE === "report-only" ? "report-only" : "enforce";
+
+const security = (scripts: ScriptSources) => securityHeaders(scripts, { production, cspMode });
+
+/**
+ * Adds the security headers to a handler's responses. Those that don't set
+ * their own policy get one that allows no inline scripts.
+ */
+function secured<A extends unknown[]>(handler: (...args: A) => Response | Promise<Response>) {
+  return async (...args: A) => {
+    const response = await handler(...args);
+    for (const [name, value] of Object.entries(security({ hashes: [] }))) {
+      if (!response.headers.has(name)) response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+// HTML bundles are mounted under an internal prefix; the public routes fetch
+// them from there so they can negotiate the language and localize the head
+// before responding.
+const BUNDLE_PREFIX = "/_pages";
+
+/** Produces a page's response, with `headers` added. */
+type PageRenderer = (
+  req: Request,
+  server: Server<undefined>,
+  headers: Record<string, string>,
+) => Promise<Response> | Response;
+
+/**
+ * On a visitor's first request, the language that best matches their
+ * `Accept-Language`. The outcome is remembered in the language cookie, and
+ * requests that carry it are never redirected, so links between language
+ * variants (and the "English version" links on legal pages) always work.
+ */
+function firstVisitLanguage(req: BunRequest): Language | undefined {
+  if (req.cookies.has(LANGUAGE_COOKIE)) return undefined;
+
+  const negotiated = negotiateLanguage(req.headers.get("accept-language"));
+  req.cookies.set(LANGUAGE_COOKIE, negotiated, { path: "/", maxAge: 31536000, sameSite: "lax" });
+  return negotiated;
+}
+
+/** For a page at `path` in the default language, the redirect to the first-time visitor's language, if it's another. */
+function firstVisitRedirect(req: BunRequest, path: string, language: Language): Response | undefined {
+  if (language !== defaultLanguage) return undefined;
+  const preferred = firstVisitLanguage(req);
+  if (!preferred || preferred === defaultLanguage) return undefined;
+
+  const { search } = new URL(req.url);
+  return new Response(null, {
+    status: 302,
+    headers: { Location: localizedPath(path, preferred) + search, Vary: "Accept-Language, Cookie" },
+  });
+}
+
+const varyHeaders = (language: Language): Record<string, string> =>
+  language === defaultLanguage ? { Vary: "Accept-Language, Cookie" } : {};
+
+function pageRoute(page: Page, language: Language, render: PageRenderer) {
+  return secured(async (req: BunRequest, server: Server<undefined>) => {
+    return firstVisitRedirect(req, page.path, language) ?? render(req, server, varyHeaders(language));
+  });
+}
+
+/**
+ * Renders a document on the dev server, localizing the bundled HTML on every
+ * request, with a fresh CSP nonce each time.
+ */
+function renderBundle(page: PageDefinition, language: Language, status = 200): PageRenderer {
+  return bundleRenderer(page, (fetched, nonce) => renderDocument(fetched, page, language, nonce), status);
+}
+
+/** `renderBundle()` with the localization of the fetched bundle up to `localize`. */
+function bundleRenderer(
+  page: PageDefinition,
+  localize: (fetched: Response, nonce: string) => Response,
+  status = 200,
+): PageRenderer {
+  return async (req, server, headers) => {
+    const nonce = createNonce();
+    const fetched = await fetch(new URL(BUNDLE_PREFIX + page.path, server.url));
+    const document = localize(fetched, nonce);
+    const response = new Response(document.body, { status, headers: document.headers });
+    response.headers.delete("ETag");
+    for (const [name, value] of Object.entries({ ...headers, ...security({ nonce }) })) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+/**
+ * Serves documents in production: each language's prerendered file from
+ * `dist/`, with a policy allowing its inline scripts by their hashes.
+ */
+function distRenderer(files: Map<string, StaticFile>, scriptHashes: Record<string, string[]>) {
+  return (page: PageDefinition, language: Language, status = 200): PageRenderer => {
+    const name = `${language === defaultLanguage ? "" : `/${language}`}/${page.entry}`;
+    const file = files.get(name);
+    if (!file) {
+      throw new Error(`${name} is missing from ${DIST_DIR}; run \`bun run build\``);
+    }
+    const hashes = scriptHashes[name] ?? [];
+    return (req, _, headers) => serveStaticFile(req, file, { ...headers, ...security({ hashes }) }, status);
+  };
+}
+
+/**
+ * Serves the documentation in production: the pages the build wrote to
+ * `dist/[<lang>/]docs/…/index.html`, if there is one at `pagePath`.
+ */
+function distDocsRenderer(files: Map<string, StaticFile>, scriptHashes: Record<string, string[]>) {
+  return (pagePath: string, language: Language): PageRenderer | undefined => {
+    const name = `${language === defaultLanguage ? "" : `/${language}`}${pagePath}/index.html`;
+    const file = files.get(name);
+    if (!file) return undefined;
+    const hashes = scriptHashes[name] ?? [];
+    return (req, _, headers) => serveStaticFile(req, file, { ...headers, ...security({ hashes }) });
+  };
+}
+
+/**
+ * Renders the documentation on the dev server, from the content directory
+ * as it is on each request, so that edits show on reload.
+ */
+function renderDocsBundle(pagePath: string, language: Language): PageRenderer | undefined {
+  const docs = loadDocs();
+  const view = docsView(docs, pagePath, language);
+  if (!view) return undefined;
+
+  const head = docsHead(docs, pagePath, view, language);
+  return bundleRenderer(docsTemplate, (fetched, nonce) => renderDocsDocument(fetched, view, head, language, nonce));
+}
+
+if (production && !existsSync(DIST_DIR)) {
+  throw new Error(`No build at ${DIST_DIR}; run \`bun run build\` first`);
+}
+
+let staticFiles: Map<string, StaticFile> | undefined;
+let render: (page: PageDefinition, language: Language, status?: number) => PageRenderer;
+let renderDocs: (pagePath: string, language: Language) => PageRenderer | undefined;
+// Routes only the dev server has: the HTML bundles, and files the build
+// writes to `dist/` otherwise.
+let devRoutes: Record<string, HTMLBundle | Response> = {};
+
+// Page heads (on the dev server) and emails are localized synchronously, in
+// every language.
+await loadAllCatalogs();
+
+if (production) {
+  staticFiles = await indexStaticFiles(DIST_DIR);
+  const scriptHashes = await Bun.file(path.join(DIST_DIR, CSP_HASHES_FILE)).json();
+  render = distRenderer(staticFiles, scriptHashes);
+  renderDocs = distDocsRenderer(staticFiles, scriptHashes);
+} else {
+  const bundles = await Promise.all(
+    documents.map(async page => [BUNDLE_PREFIX + page.path, (await import(`./${page.entry}`)).default as HTMLBundle]),
+  );
+  devRoutes = {
+    ...Object.fromEntries(bundles),
+    "/robots.txt": new Response(Bun.file("./src/robots.txt"), { headers: security({ hashes: [] }) }),
+    "/sitemap.xml": new Response(sitemapXml(loadDocs()), {
+      headers: { "Content-Type": "application/xml; charset=utf-8", ...security({ hashes: [] }) },
+    }),
+  };
+  render = renderBundle;
+  renderDocs = renderDocsBundle;
+}
+
+const pageRoutes = Object.fromEntries(
+  pages.flatMap(page =>
+    (Object.keys(languages) as Language[]).map(language => [
+      localizedPath(page.path, language),
+      pageRoute(page, language, render(page, language)),
+    ]),
+  ),
+);
+
+// Language home pages live at `/<lang>/`; send the bare prefix there.
+for (const language of Object.keys(languages) as Language[]) {
+  if (language !== defaultLanguage) {
+    pageRoutes[`/${language}`] = secured(() => new Response(null, { status: 301, headers: { Location: `/${language}/` } }));
+  }
+}
+
+const notFound = Object.fromEntries(
+  (Object.keys(languages) as Language[]).map(language => [language, render(notFoundPage, language, 404)]),
+) as Record<Language, PageRenderer>;
+
+/**
+ * The documentation, at `/docs` and below, in `language`. Paths with a
+ * trailing slash are redirected without it, and paths without a page get
+ * the 404 page.
+ */
+function docsRoute(language: Language) {
+  return secured(async (req: BunRequest, server: Server<undefined>) => {
+    const { pathname, search } = new URL(req.url);
+    const redirect = resolveRedirect(pathname, search);
+    if (redirect) {
+      return new Response(null, { status: redirect.status, headers: { Location: redirect.location } });
+    }
+
+    const pagePath = stripLanguagePrefix(pathname);
+    const renderer = renderDocs(pagePath, language);
+    if (!renderer) {
+      return notFound[language](req, server, {});
+    }
+    return firstVisitRedirect(req, pagePath, language) ?? renderer(req, server, varyHeaders(language));
+  });
+}
+
+const docsRoutes = Object.fromEntries(
+  (Object.keys(languages) as Language[]).flatMap(language => {
+    const route = docsRoute(language);
+    const docsPath = localizedPath(DOCS_PATH, language);
+    return [
+      [docsPath, route],
+      [`${docsPath}/*`, route],
+    ];
+  }),
+);
+
+// First-party analytics; the dashboard is disabled unless a password is set.
+const stats = openStatsStore(process.env.STATS_DB ?? "data/stats.sqlite");
+// The pages events may be counted on: every page and documentation page, in every language.
+const sitePaths = new Set(
+  [...pages.map(page => page.path), ...docsPaths(loadDocs())].flatMap(pagePath =>
+    (Object.keys(languages) as Language[]).map(language => localizedPath(pagePath, language)),
+  ),
+);
+const cspReports = openCspReportStore(process.env.CSP_REPORTS_DB ?? "data/csp-reports.sqlite");
+
+// Support tickets are emailed to the support inbox through `MAIL_URL` (see
+// `mail.ts`); without one, messages are written to a local Maildir. Uploaded
+// logs can be read with `SUPPORT_PASSWORD`, at links to `SITE_URL`.
+const tickets = openTicketStore(process.env.TICKETS_DB ?? "data/tickets.sqlite");
+const supportMail = {
+  transport: mailTransport(process.env.MAIL_URL ?? "maildir:data/mail"),
+  from: process.env.MAIL_FROM ?? "VVTerm <noreply@vvterm.com>",
+  to: process.env.SUPPORT_EMAIL ?? SUPPORT_EMAIL,
+  siteUrl: process.env.SITE_URL ?? SITE_URL,
+};
+void forwardPendingTickets(tickets, supportMail);
+
+// App Store Server Notifications are verified against the root certificates
+// in `APPSTORE_ROOT_CERTS` (comma-separated paths): Apple Root CA - G3, or a
+// local root to test with. Without them the notification route is disabled.
+const appStore = openAppStoreStore(process.env.APPSTORE_DB ?? "data/appstore.sqlite");
+const appStoreNotifications = {
+  roots: loadCertificates(process.env.APPSTORE_ROOT_CERTS?.split(",").filter(Boolean) ?? []),
+  bundleId: process.env.APPSTORE_BUNDLE_ID ?? APP_BUNDLE_ID,
+};
+
+// Release announcements go to confirmed subscribers, through the same mail
+// transport. Their confirmation and unsubscribe links are signed with
+// `NEWSLETTER_SECRET`; without it, links stop working when the server restarts.
+const newsletter = openNewsletterStore(process.env.NEWSLETTER_DB ?? "data/newsletter.sqlite");
+if (!process.env.NEWSLETTER_SECRET) {
+  console.warn("NEWSLETTER_SECRET isn't set; newsletter links will only work until the server restarts");
+}
+const newsletterOptions = {
+  transport: supportMail.transport,
+  from: supportMail.from,
+  secret: process.env.NEWSLETTER_SECRET ?? randomBytes(32).toString("hex"),
+  siteUrl: supportMail.siteUrl,
+};
 
 const server = serve({
   port: 8787,
   routes: {
-    "/": index,
-    "/privacy": privacy,
-    "/terms": terms,
-    "/refund": refund,
-    "/thanks": thanks,
-    "/robots.txt": Bun.file("./src/robots.txt"),
-    "/sitemap.xml": Bun.file("./src/sitemap.xml"),
+    ...devRoutes,
+    ...pageRoutes,
+    ...docsRoutes,
+    "/api/event": { POST: secured(eventRoute(stats, rateLimiter({ limit: 300, windowMs: 60 * 60 * 1000 }), sitePaths)) },
+    [CSP_REPORT_PATH]: { POST: secured(cspReportRoute(cspReports, rateLimiter({ limit: 100, windowMs: 60 * 60 * 1000 }))) },
+    [SUPPORT_ENDPOINT]: {
+      POST: secured(supportRoute(tickets, supportMail, rateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 }))),
+    },
+    [LOG_ENDPOINT]: {
+      POST: secured(logUploadRoute(tickets, supportMail, rateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 }))),
+    },
+    [SUBSCRIBE_ENDPOINT]: {
+      POST: secured(subscribeRoute(newsletter, newsletterOptions, rateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 }))),
+    },
+    [CONFIRM_PATH]: { GET: secured(confirmRoute(newsletter, newsletterOptions)) },
+    [UNSUBSCRIBE_ENDPOINT]: {
+      GET: secured(unsubscribeRoute(newsletter, newsletterOptions)),
+      POST: secured(unsubscribeRoute(newsletter, newsletterOptions)),
+    },
+    "/api/appstore/notifications": { POST: secured(notificationRoute(appStore, appStoreNotifications)) },
+    "/admin/stats": { GET: secured(statsRoute(stats, process.env.STATS_PASSWORD)) },
+    "/admin/appstore": { GET: secured(appStoreAdminRoute(appStore, process.env.APPSTORE_PASSWORD)) },
+    "/admin/support/logs/:id": { GET: secured(logRoute(tickets, process.env.SUPPORT_PASSWORD)) },
   },
 
-  development: process.env.NODE_ENV !== "production" && {
+  // Assets of the build (scripts, styles, images, the sitemap), then the
+  // redirect table, then the 404 page in the language of the path. Pages are
+  // only served through their routes.
+  fetch: secured((req: Request, server: Server<undefined>) => {
+    const { pathname, search } = new URL(req.url);
+    const file = staticFiles?.get(pathname);
+    if (file && !file.path.endsWith(".html")) {
+      return serveStaticFile(req, file);
+    }
+
+    const redirect = resolveRedirect(pathname, search);
+    if (redirect) {
+      return new Response(null, { status: redirect.status, headers: { Location: redirect.location } });
+    }
+
+    return notFound[languageFromPath(pathname)](req, server, {});
+  }),
+
+  development: !production && {
     hmr: true,
     console: true,
   },
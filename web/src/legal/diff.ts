@@ -0,0 +1,129 @@
+import type { RichSection } from "../components/RichText";
+import type { Language } from "../i18n/i18n";
+
+/** A run of a sequence that is in both versions, only the old one, or only the new one. */
+export interface DiffPart {
+  type: "equal" | "removed" | "added";
+  value: string;
+}
+
+/** One line of a legal text: a section title, a heading, a paragraph or a list item. */
+export interface DiffLine {
+  kind: "title" | "heading" | "paragraph" | "bullet" | "number";
+  type: "equal" | "removed" | "added" | "changed";
+  /** The line's text; for `changed` lines, its words, each in both versions or one. */
+  parts: DiffPart[];
+}
+
+/**
+ * The longest common subsequence of `a` and `b`, as the parts of each that
+ * are kept, removed and added, in order. Removals come before additions.
+ */
+export function diffSequences(a: readonly string[], b: readonly string[]): DiffPart[] {
+  // lengths[i][j]: length of the longest common subsequence of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j] ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ type: "equal", value: a[i]! });
+      i++;
+      j++;
+    } else if (j === b.length || (i < a.length && lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+      parts.push({ type: "removed", value: a[i++]! });
+    } else {
+      parts.push({ type: "added", value: b[j++]! });
+    }
+  }
+  return parts;
+}
+
+type Line = { kind: DiffLine["kind"]; text: string };
+
+function lines(sections: RichSection[]): Line[] {
+  return sections.flatMap(section => [
+    { kind: "title" as const, text: section.title },
+    ...section.body.flatMap((block): Line[] => {
+      if ("h3" in block) return [{ kind: "heading", text: block.h3 }];
+      if ("p" in block) return [{ kind: "paragraph", text: block.p }];
+      if ("ul" in block) return block.ul.map(text => ({ kind: "bullet", text }));
+      // Numbers are part of the text, so renumbered items show as changed.
+      return block.ol.map((text, n) => ({ kind: "number", text: `${n + 1}. ${text}` }));
+    }),
+  ]);
+}
+
+// Lines are compared by kind and text; a paragraph that becomes a list item changed.
+const lineKey = ({ kind, text }: Line) => `${kind}\u0000${text}`;
+
+/** Text of a line with its `[label](href)` links reduced to their labels, for lines shown marked up. */
+const withoutLinks = (text: string) => text.replace(/\[([^\]]+)\]\([^)\s]+\)/g, "$1");
+
+/**
+ * Word-level diff of two versions of a line. Words come from
+ * `Intl.Segmenter`, so texts without spaces between words, such as Chinese,
+ * are compared word by word too. Links are compared by their label.
+ */
+function diffWords(from: string, to: string, language: Language): DiffPart[] {
+  const segmenter = new Intl.Segmenter(language, { granularity: "word" });
+  const words = (text: string) => Array.from(segmenter.segment(withoutLinks(text)), ({ segment }) => segment);
+
+  // Merge neighbouring parts of a type, so that a changed phrase is marked once.
+  return diffSequences(words(from), words(to)).reduce<DiffPart[]>((merged, part) => {
+    const last = merged.at(-1);
+    if (last?.type === part.type) last.value += part.value;
+    else merged.push({ ...part });
+    return merged;
+  }, []);
+}
+
+/**
+ * The differences between two versions of a legal text, line by line. Where
+ * lines were removed and the same number of lines of the same kinds added in
+ * their place, each is shown as one `changed` line with the changed words
+ * marked; other lines are shown whole as they were or are.
+ */
+export function diffLegalTexts(from: RichSection[], to: RichSection[], language: Language): DiffLine[] {
+  const fromLines = lines(from);
+  const toLines = lines(to);
+  const parsed = new Map([...fromLines, ...toLines].map(line => [lineKey(line), line]));
+  const parts = diffSequences(fromLines.map(lineKey), toLines.map(lineKey));
+
+  const result: DiffLine[] = [];
+  for (let index = 0; index < parts.length; ) {
+    const part = parts[index]!;
+    if (part.type === "equal") {
+      const line = parsed.get(part.value)!;
+      result.push({ kind: line.kind, type: "equal", parts: [{ type: "equal", value: line.text }] });
+      index++;
+      continue;
+    }
+
+    let end = index;
+    while (end < parts.length && parts[end]!.type !== "equal") end++;
+    const removed = parts.slice(index, end).filter(({ type }) => type === "removed").map(({ value }) => parsed.get(value)!);
+    const added = parts.slice(index, end).filter(({ type }) => type === "added").map(({ value }) => parsed.get(value)!);
+
+    if (removed.length === added.length && removed.every((line, i) => line.kind === added[i]!.kind)) {
+      removed.forEach((line, i) =>
+        result.push({ kind: line.kind, type: "changed", parts: diffWords(line.text, added[i]!.text, language) }),
+      );
+    } else {
+      for (const { kind, text } of removed) {
+        result.push({ kind, type: "removed", parts: [{ type: "removed", value: withoutLinks(text) }] });
+      }
+      for (const { kind, text } of added) {
+        result.push({ kind, type: "added", parts: [{ type: "added", value: withoutLinks(text) }] });
+      }
+    }
+    index = end;
+  }
+  return result;
+}
@@ -0,0 +1,109 @@
+import type { RichSection } from "../components/RichText";
+import { type Language, defaultLanguage, languages } from "../i18n/i18n";
+import { parseFrontMatter, parseLegalMarkdown } from "./markdown";
+import privacy1 from "./privacy/1.md" with { type: "text" };
+import privacy1Zh from "./privacy/1.zh.md" with { type: "text" };
+import terms1 from "./terms/1.md" with { type: "text" };
+import terms1Zh from "./terms/1.zh.md" with { type: "text" };
+
+/**
+ * Every published version of each legal text, oldest first. A version is a
+ * Markdown file, `<document>/<version>.md`, with front-matter giving its
+ * `version`, `effective` date (`YYYY-MM-DD`) and a `summary` of what changed;
+ * translations sit next to it as `<version>.<language>.md` with the same
+ * front-matter, the summary translated. Published versions are never edited:
+ * a change to a text is a new file, registered here.
+ */
+const sources = {
+  terms: [{ en: terms1, zh: terms1Zh }],
+  privacy: [{ en: privacy1, zh: privacy1Zh }],
+} satisfies Record<string, ({ en: string } & Partial<Record<Language, string>>)[]>;
+
+export type LegalDocumentId = keyof typeof sources;
+
+export interface LegalVersion {
+  version: number;
+  /** Date the version took effect, `YYYY-MM-DD`. */
+  effective: string;
+  summary: string;
+  sections: RichSection[];
+  /** Language of the text, which is English where there is no translation. */
+  language: Language;
+}
+
+/** URL path of each legal text in the default language; its archive is at `<path>/history`. */
+export const legalDocumentPaths: Record<LegalDocumentId, string> = {
+  terms: "/terms",
+  privacy: "/privacy",
+};
+
+function parseVersion(source: string, language: Language, file: string): LegalVersion {
+  const { data, body } = parseFrontMatter(source);
+  const version = Number(data.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${file}: front-matter needs a positive integer \`version\``);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.effective ?? "") || Number.isNaN(Date.parse(data.effective!))) {
+    throw new Error(`${file}: front-matter needs an \`effective\` date, YYYY-MM-DD`);
+  }
+  if (!data.summary) {
+    throw new Error(`${file}: front-matter needs a \`summary\``);
+  }
+  return { version, effective: data.effective!, summary: data.summary, sections: parseLegalMarkdown(body), language };
+}
+
+/**
+ * Parses and checks every version: numbered 1, 2, 3… with effective dates in
+ * order, and translations matching the English version they translate.
+ */
+function loadVersions(id: LegalDocumentId): Record<Language, LegalVersion[]> {
+  const versions = Object.fromEntries(
+    Object.keys(languages).map(language => [language, [] as LegalVersion[]]),
+  ) as Record<Language, LegalVersion[]>;
+
+  sources[id].forEach((files, index) => {
+    const english = parseVersion(files.en, defaultLanguage, `${id}/${index + 1}.md`);
+    const previous = versions[defaultLanguage].at(-1);
+    if (english.version !== index + 1) {
+      throw new Error(`${id}/${index + 1}.md: is version ${english.version}, expected ${index + 1}`);
+    }
+    if (previous && english.effective <= previous.effective) {
+      throw new Error(`${id}/${index + 1}.md: takes effect on or before version ${previous.version}`);
+    }
+
+    for (const language of Object.keys(versions) as Language[]) {
+      const source = (files as Partial<Record<Language, string>>)[language];
+      if (language === defaultLanguage || source === undefined) {
+        versions[language].push(english);
+        continue;
+      }
+      const file = `${id}/${index + 1}.${language}.md`;
+      const translation = parseVersion(source, language, file);
+      if (translation.version !== english.version || translation.effective !== english.effective) {
+        throw new Error(`${file}: version and effective date must match ${id}/${index + 1}.md`);
+      }
+      versions[language].push(translation);
+    }
+  });
+
+  return versions;
+}
+
+const versions = Object.fromEntries(
+  (Object.keys(sources) as LegalDocumentId[]).map(id => [id, loadVersions(id)]),
+) as Record<LegalDocumentId, Record<Language, LegalVersion[]>>;
+
+/** The published versions of a legal text in `language`, oldest first. */
+export function legalVersions(id: LegalDocumentId, language: Language): LegalVersion[] {
+  return versions[id][language];
+}
+
+/** The version of a legal text in effect. */
+export function currentVersion(id: LegalDocumentId, language: Language): LegalVersion {
+  return legalVersions(id, language).at(-1)!;
+}
+
+/** Formats an effective date, `2026-02-14` → "February 14, 2026". */
+export function formatEffectiveDate(effective: string, language: Language): string {
+  return new Intl.DateTimeFormat(language, { dateStyle: "long", timeZone: "UTC" }).format(new Date(effective));
+}
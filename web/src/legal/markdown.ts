@@ -0,0 +1,80 @@
+import type { RichBlock, RichSection } from "../components/RichText";
+
+/**
+ * Splits a document into its front-matter, a block of `key: value` lines
+ * between `---` fences at the very top, and the text after it.
+ */
+export function parseFrontMatter(source: string): { data: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: source };
+
+  const data: Record<string, string> = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      throw new Error(`Invalid front-matter line: ${line}`);
+    }
+    data[line.slice(0, separator).trim()] = line.slice(separator + 1).trim().replace(/^"(.*)"$/, "$1");
+  }
+  return { data, body: source.slice(match[0].length) };
+}
+
+/**
+ * Parses the Markdown of a legal text into the sections `RichText` renders.
+ * Only the subset of Markdown the catalogs' rich text has is supported: `##`
+ * section titles, `###` headings, paragraphs, `-` and `1.` lists, and inline
+ * `[label](href)` links. Lines of a paragraph or list item are joined with a
+ * space. Anything else is an error, so that no formatting is silently lost.
+ */
+export function parseLegalMarkdown(body: string): RichSection[] {
+  const sections: RichSection[] = [];
+  let paragraph: string[] = [];
+  let list: { type: "ul" | "ol"; items: string[] } | undefined;
+
+  const current = (line: string) => {
+    const section = sections.at(-1);
+    if (!section) {
+      throw new Error(`Text before the first section title: ${line}`);
+    }
+    return section.body;
+  };
+  const push = (block: RichBlock, line: string) => current(line).push(block);
+  const flush = () => {
+    if (paragraph.length > 0) push({ p: paragraph.join(" ") }, paragraph[0]!);
+    if (list) push(list.type === "ul" ? { ul: list.items } : { ol: list.items }, list.items[0]!);
+    paragraph = [];
+    list = undefined;
+  };
+
+  for (const raw of body.split(/\r?\n/)) {
+    const line = raw.trim();
+    const item = line.match(/^(-|\d+\.)\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (line.startsWith("## ")) {
+      flush();
+      sections.push({ title: line.slice(3).trim(), body: [] });
+    } else if (line.startsWith("### ")) {
+      flush();
+      push({ h3: line.slice(4).trim() }, line);
+    } else if (line.startsWith("#")) {
+      throw new Error(`Unsupported heading level: ${line}`);
+    } else if (item) {
+      const type = item[1] === "-" ? "ul" : "ol";
+      if (paragraph.length > 0 || (list && list.type !== type)) flush();
+      list ??= { type, items: [] };
+      list.items.push(item[2]!);
+    } else if (list && raw.startsWith(" ")) {
+      // An indented line continues the list item above it.
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
@@ -0,0 +1,44 @@
+import React from "react";
+import { createRoot, hydrateRoot } from "react-dom/client";
+import { startAnalytics } from "./analytics/analytics";
+import ConsentManager from "./components/ConsentManager";
+import { LanguageProvider } from "./i18n/LanguageContext";
+import { detectLanguage, loadCatalog } from "./i18n/i18n";
+
+/**
+ * Mounts a page into `#root`. Production builds ship prerendered markup
+ * (see `prerender.tsx`), which is hydrated; the dev server serves an empty
+ * root, which is rendered from scratch. Either way the page's translation
+ * catalog is fetched first, in parallel with the document finishing loading,
+ * so the markup stays as served until the translations are in. Analytics
+ * providers the visitor has consented to start loading right away; the
+ * cookie banner gets a root of its own, since it isn't prerendered.
+ */
+export function mount(element: React.ReactElement) {
+  startAnalytics();
+  const catalog = loadCatalog(detectLanguage());
+
+  async function start() {
+    await catalog;
+    const container = document.getElementById("root")!;
+    if (container.hasChildNodes()) {
+      hydrateRoot(container, element);
+    } else {
+      createRoot(container).render(element);
+    }
+
+    const consentContainer = document.createElement("div");
+    document.body.appendChild(consentContainer);
+    createRoot(consentContainer).render(
+      <LanguageProvider>
+        <ConsentManager />
+      </LanguageProvider>,
+    );
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", start);
+  } else {
+    start();
+  }
+}
@@ -0,0 +1,17 @@
+/** Where the signup form posts `{ email, language }` as JSON (see `server.ts`). */
+export const SUBSCRIBE_ENDPOINT = "/api/subscribe";
+/** The link in the confirmation email, `?token=<confirm token>`. */
+export const CONFIRM_PATH = "/api/subscribe/confirm";
+/** The one-click unsubscribe URL of list mail, `?token=<unsubscribe token>`. */
+export const UNSUBSCRIBE_ENDPOINT = "/api/unsubscribe";
+/** The page the links above lead to, with `?status=` or `?unsubscribe=<token>`. */
+export const NEWSLETTER_PAGE = "/newsletter";
+
+/** How long the link in a confirmation email works. */
+export const CONFIRM_TOKEN_HOURS = 48;
+
+/** A field hidden from people; bots that fill it in are told to check their inbox. */
+export const HONEYPOT_FIELD = "website";
+
+/** What the newsletter page shows after a confirmation link was followed. */
+export type ConfirmStatus = "confirmed" | "expired";
@@ -0,0 +1,11 @@
+import React from "react";
+import { NewsletterPage } from "../pages";
+import { LanguageProvider } from "../i18n/LanguageContext";
+import { mount } from "../mount";
+import "../index.css";
+
+mount(
+  <LanguageProvider>
+    <NewsletterPage />
+  </LanguageProvider>,
+);
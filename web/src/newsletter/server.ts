@@ -0,0 +1,150 @@
+import type { BunRequest, Server } from "bun";
+import { isEmailAddress } from "../email-address";
+import { defaultLanguage, getTranslation, isLanguage, localizedPath } from "../i18n/i18n";
+import type { MailMessage, MailTransport } from "../mail";
+import type { RateLimiter } from "../rate-limit";
+import {
+  type ConfirmStatus,
+  CONFIRM_PATH,
+  CONFIRM_TOKEN_HOURS,
+  HONEYPOT_FIELD,
+  NEWSLETTER_PAGE,
+  UNSUBSCRIBE_ENDPOINT,
+} from "./form";
+import type { NewsletterStore, Subscriber } from "./store";
+import { signToken, verifyToken } from "./tokens";
+
+const MAX_BODY_BYTES = 4 * 1024;
+
+export interface NewsletterOptions {
+  transport: MailTransport;
+  /** Sender of confirmations and announcements, such as `VVTerm <noreply@vvterm.com>`. */
+  from: string;
+  /** Key of the confirmation and unsubscribe tokens. */
+  secret: string;
+  /** The site's URL, which links in the mail lead to, never taken from a request's `Host`. */
+  siteUrl: string;
+}
+
+const json = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  Response.json(body, { status, headers: { "Cache-Control": "no-store", ...headers } });
+
+const redirect = (location: string) =>
+  new Response(null, { status: 303, headers: { Location: location, "Cache-Control": "no-store" } });
+
+/** The one-click unsubscribe URL of a subscriber, for list mail sent from `siteUrl`. */
+export function unsubscribeUrl(subscriber: Subscriber, siteUrl: string, secret: string): URL {
+  const url = new URL(UNSUBSCRIBE_ENDPOINT, siteUrl);
+  url.searchParams.set("token", signToken({ purpose: "unsubscribe", ...subscriber }, secret));
+  return url;
+}
+
+/**
+ * An announcement to a subscriber, with the RFC 8058 headers mail clients
+ * show as an unsubscribe button, and the same link in the footer.
+ */
+export function announcement(
+  subscriber: Subscriber,
+  content: { subject: string; text: string },
+  options: Omit<NewsletterOptions, "transport">,
+): MailMessage {
+  const unsubscribe = unsubscribeUrl(subscriber, options.siteUrl, options.secret);
+  const footer = getTranslation(subscriber.language, "newsletter.email.footer", { url: unsubscribe.href });
+  return {
+    from: options.from,
+    to: subscriber.email,
+    subject: content.subject,
+    text: `${content.text.trimEnd()}\n\n--\n${footer}\n`,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribe.href}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+/**
+ * `POST /api/subscribe`, where the signup form sends `{ email, language }`.
+ * New addresses are stored as pending and sent a link to confirm them, in
+ * their language; only confirmed addresses get announcements. Every valid
+ * signup is answered the same, whether the address was subscribed before or
+ * not, so the form doesn't tell who is on the list.
+ */
+export function subscribeRoute(store: NewsletterStore, options: NewsletterOptions, limiter: RateLimiter) {
+  return async (req: BunRequest, server: Server<undefined>) => {
+    if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+      return json({ error: "too_large" }, 413);
+    }
+
+    const limit = limiter.take(server.requestIP(req)?.address ?? "");
+    if (!limit.allowed) {
+      return json({ error: "rate_limited" }, 429, { "Retry-After": String(limit.retryAfter) });
+    }
+
+    let body: Record<string, unknown> | null;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: "invalid" }, 400);
+    }
+    if (body?.[HONEYPOT_FIELD]) {
+      return json({ status: "pending" }, 202);
+    }
+    const email = typeof body?.email === "string" ? body.email.trim() : "";
+    if (!isEmailAddress(email)) {
+      return json({ error: "invalid" }, 400);
+    }
+    const language = typeof body?.language === "string" && isLanguage(body.language) ? body.language : defaultLanguage;
+
+    if (store.subscribe(email, language)) {
+      const url = new URL(CONFIRM_PATH, options.siteUrl);
+      const expires = Date.now() + CONFIRM_TOKEN_HOURS * 60 * 60 * 1000;
+      url.searchParams.set("token", signToken({ purpose: "confirm", email, language, expires }, options.secret));
+      options.transport
+        .send({
+          from: options.from,
+          to: email,
+          subject: getTranslation(language, "newsletter.email.confirmSubject"),
+          text: `${getTranslation(language, "newsletter.email.confirmBody", { url: url.href, hours: CONFIRM_TOKEN_HOURS })}\n`,
+        })
+        .catch(error => console.error("Sending a newsletter confirmation failed:", error));
+    }
+    return json({ status: "pending" }, 202);
+  };
+}
+
+/**
+ * `GET /api/subscribe/confirm?token=`, the link in the confirmation email.
+ * Confirms the signup and redirects to the newsletter page in the
+ * subscriber's language, which says whether it worked.
+ */
+export function confirmRoute(store: NewsletterStore, options: NewsletterOptions) {
+  return (req: BunRequest) => {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+    const payload = verifyToken(token, "confirm", options.secret);
+    const status: ConfirmStatus = payload && store.confirm(payload.email) ? "confirmed" : "expired";
+    return redirect(`${localizedPath(NEWSLETTER_PAGE, payload?.language ?? defaultLanguage)}?status=${status}`);
+  };
+}
+
+/**
+ * `/api/unsubscribe?token=`, the unsubscribe link of list mail. Mail clients
+ * `POST` to it with `List-Unsubscribe=One-Click` (RFC 8058), and so does the
+ * newsletter page's button; following the link (`GET`) leads to that page,
+ * so link scanners can't unsubscribe anyone.
+ */
+export function unsubscribeRoute(store: NewsletterStore, options: NewsletterOptions) {
+  return async (req: BunRequest) => {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+    const payload = verifyToken(token, "unsubscribe", options.secret);
+
+    if (req.method === "GET") {
+      const page = localizedPath(NEWSLETTER_PAGE, payload?.language ?? defaultLanguage);
+      return redirect(`${page}?unsubscribe=${encodeURIComponent(token)}`);
+    }
+    if (!payload) {
+      return json({ error: "invalid" }, 400);
+    }
+    store.unsubscribe(payload.email);
+    return json({ status: "unsubscribed" }, 200);
+  };
+}
@@ -0,0 +1,99 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import path from "path";
+import type { Language } from "../i18n/i18n";
+
+// Another signup within this time doesn't send another confirmation email.
+const CONFIRM_RESEND_MS = 10 * 60 * 1000;
+
+export type SubscriberStatus = "pending" | "confirmed" | "unsubscribed";
+
+export interface Subscriber {
+  email: string;
+  language: Language;
+}
+
+export interface NewsletterStore {
+  /**
+   * Records a signup, pending until confirmed, and returns whether to send
+   * a confirmation email: not to confirmed subscribers, nor again soon
+   * after the last one.
+   */
+  subscribe(email: string, language: Language): boolean;
+  /** Confirms a pending signup; returns whether the address is now subscribed. */
+  confirm(email: string): boolean;
+  unsubscribe(email: string): void;
+  /** Confirmed subscribers, of a language or all. */
+  subscribers(language?: Language): Subscriber[];
+  counts(): Record<SubscriberStatus, number>;
+}
+
+/**
+ * Opens (creating if needed) the SQLite database of the release-announcement
+ * mailing list. Addresses are stored lowercased, once each; unsubscribed
+ * addresses are kept as such, so they only get mail after signing up and
+ * confirming again.
+ */
+export function openNewsletterStore(filename: string): NewsletterStore {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS subscribers (
+      email TEXT PRIMARY KEY, language TEXT NOT NULL, status TEXT NOT NULL, created_at INTEGER NOT NULL,
+      confirm_sent_at INTEGER, confirmed_at INTEGER, unsubscribed_at INTEGER
+    )
+  `);
+
+  const select = db.query<{ status: SubscriberStatus; confirm_sent_at: number | null }, { email: string }>(
+    "SELECT status, confirm_sent_at FROM subscribers WHERE email = $email",
+  );
+  const upsertPending = db.query(
+    `INSERT INTO subscribers (email, language, status, created_at, confirm_sent_at)
+     VALUES ($email, $language, 'pending', $now, $now)
+     ON CONFLICT (email) DO UPDATE SET language = $language, status = 'pending', confirm_sent_at = $now`,
+  );
+  const confirmPending = db.query(
+    "UPDATE subscribers SET status = 'confirmed', confirmed_at = $now WHERE email = $email AND status = 'pending'",
+  );
+  const markUnsubscribed = db.query(
+    "UPDATE subscribers SET status = 'unsubscribed', unsubscribed_at = $now WHERE email = $email AND status != 'unsubscribed'",
+  );
+  const selectConfirmed = db.query<Subscriber, { language: string | null }>(
+    `SELECT email, language FROM subscribers
+     WHERE status = 'confirmed' AND ($language IS NULL OR language = $language) ORDER BY confirmed_at`,
+  );
+  const countByStatus = db.query<{ status: SubscriberStatus; count: number }, []>(
+    "SELECT status, count(*) AS count FROM subscribers GROUP BY status",
+  );
+
+  const key = (email: string) => email.trim().toLowerCase();
+
+  return {
+    subscribe(email, language) {
+      const now = Date.now();
+      const existing = select.get({ email: key(email) });
+      if (existing?.status === "confirmed") return false;
+      if (existing?.status === "pending" && existing.confirm_sent_at && now - existing.confirm_sent_at < CONFIRM_RESEND_MS) {
+        return false;
+      }
+      upsertPending.run({ email: key(email), language, now });
+      return true;
+    },
+    confirm(email) {
+      confirmPending.run({ email: key(email), now: Date.now() });
+      return select.get({ email: key(email) })?.status === "confirmed";
+    },
+    unsubscribe(email) {
+      markUnsubscribed.run({ email: key(email), now: Date.now() });
+    },
+    subscribers(language) {
+      return selectConfirmed.all({ language: language ?? null });
+    },
+    counts() {
+      const counts: Record<SubscriberStatus, number> = { pending: 0, confirmed: 0, unsubscribed: 0 };
+      for (const { status, count } of countByStatus.all()) counts[status] = count;
+      return counts;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { type Language, isLanguage } from "../i18n/i18n";
+
+/** Confirmation tokens expire; unsubscribe tokens work as long as the mail they are in. */
+export type TokenPurpose = "confirm" | "unsubscribe";
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  email: string;
+  language: Language;
+  /** Milliseconds since the epoch. */
+  expires?: number;
+}
+
+const signature = (payload: string, secret: string) => createHmac("sha256", secret).update(payload).digest();
+
+/** A token for `purpose` on behalf of `email`, signed with `secret`: `<payload>.<HMAC-SHA256>`, base64url. */
+export function signToken(payload: TokenPayload, secret: string): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${signature(encoded, secret).toString("base64url")}`;
+}
+
+/** The token's payload, if it was signed with `secret` for `purpose` and hasn't expired. */
+export function verifyToken(token: string, purpose: TokenPurpose, secret: string): TokenPayload | undefined {
+  const [encoded, signed] = token.split(".");
+  if (!encoded || !signed) return undefined;
+
+  const expected = signature(encoded, secret);
+  const given = Buffer.from(signed, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return undefined;
+
+  let payload: Partial<TokenPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    return undefined;
+  }
+  if (payload.purpose !== purpose || typeof payload.email !== "string" || !isLanguage(payload.language)) return undefined;
+  if (payload.expires !== undefined && payload.expires < Date.now()) return undefined;
+  return payload as TokenPayload;
+}
@@ -0,0 +1,161 @@
+import React from "react";
+import { ExternalLink } from "lucide-react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { defaultLanguage, localizedPath } from "../i18n/i18n";
+import { Layout } from "../components/Layout";
+import { type DocsArticle, type DocsNode, type DocsView, type TocEntry, DOCS_PATH } from "../docs/view";
+
+function SidebarTree({ nodes, current }: { nodes: DocsNode[]; current?: string }) {
+  return (
+    <ul className="space-y-1">
+      {nodes.map(node => (
+        <li key={node.path ?? node.title}>
+          {node.children.length > 0 && !node.path ? (
+            <span className="block mt-4 mb-1 text-xs font-semibold uppercase tracking-wide text-[#86868b]">{node.title}</span>
+          ) : (
+            <a
+              href={node.path}
+              aria-current={node.path === current ? "page" : undefined}
+              className={`block py-1 text-sm transition-colors ${
+                node.path === current ? "text-blue-500" : "text-[#86868b] hover:text-[#f5f5f7]"
+              } ${node.children.length > 0 ? "mt-4 font-semibold" : ""}`}
+            >
+              {node.title}
+            </a>
+          )}
+          {node.children.length > 0 && (
+            <div className="pl-3 border-l border-white/8">
+              <SidebarTree nodes={node.children} current={current} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function TableOfContents({ toc }: { toc: TocEntry[] }) {
+  const { t } = useLanguage();
+  if (toc.length === 0) return null;
+
+  return (
+    <nav aria-label={t("docs.onThisPage")}>
+      <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-[#86868b]">{t("docs.onThisPage")}</p>
+      <ul className="space-y-1.5 text-sm">
+        {toc.map(entry => (
+          <li key={entry.id} className={entry.level === 3 ? "pl-3" : ""}>
+            <a href={`#${entry.id}`} className="text-[#86868b] hover:text-[#f5f5f7] transition-colors">
+              {entry.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
+
+/** The pages in and below `nodes`, for the overview and folder pages. */
+function PageList({ nodes }: { nodes: DocsNode[] }) {
+  return (
+    <div className="grid sm:grid-cols-2 gap-4 mt-8">
+      {nodes.map(node => (
+        <a
+          key={node.path ?? node.title}
+          href={node.path ?? node.children[0]?.path}
+          className="block p-5 rounded-2xl bg-white/[0.03] border border-white/8 hover:border-white/20 transition-colors"
+        >
+          <span className="block font-medium text-[#f5f5f7] mb-1">{node.title}</span>
+          {node.description && <span className="block text-sm text-[#86868b]">{node.description}</span>}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function Article({ article, pages }: { article: DocsArticle; pages: DocsNode[] }) {
+  const { t, language } = useLanguage();
+
+  return (
+    <article lang={article.language}>
+      {language !== defaultLanguage && article.language === defaultLanguage && (
+        <div lang={language} className="mb-8 px-4 py-3 rounded-xl border border-white/12 bg-white/[0.03] text-sm text-[#f5f5f7]">
+          {t("docs.englishOnly")}
+        </div>
+      )}
+      <h1 className="text-4xl font-semibold tracking-tight mb-4">{article.title}</h1>
+      <p className="text-lg text-[#86868b]">{article.description}</p>
+      {/* Rendered from Markdown on the server, with its text escaped (see `docs/markdown.ts`). */}
+      <div className="text-[#a1a1a6] leading-relaxed" dangerouslySetInnerHTML={{ __html: article.html }} />
+      {pages.length > 0 && <PageList nodes={pages} />}
+      <p lang={language} className="mt-16 pt-6 border-t border-white/8 text-sm">
+        <a
+          href={article.editUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1.5 text-[#86868b] hover:text-blue-500 transition-colors"
+        >
+          {t("docs.edit")}
+          <ExternalLink size={14} />
+        </a>
+      </p>
+    </article>
+  );
+}
+
+/** The node of the page at `path` in the sidebar. */
+function findNode(nodes: DocsNode[], path: string): DocsNode | undefined {
+  for (const node of nodes) {
+    if (node.path === path) return node;
+    const found = findNode(node.children, path);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * A page of the documentation: the sidebar of the content directory, the
+ * page's article with its table of contents and a link to edit it on
+ * GitHub, or on `/docs` without an `index.md`, the list of sections. The
+ * view comes from the server (see `docs/content.ts`).
+ */
+export function DocsPage({ view }: { view: DocsView }) {
+  const { t, language } = useLanguage();
+  const { article, sidebar } = view;
+
+  return (
+    <Layout>
+      <div className="px-6 py-12">
+        <div className="max-w-[1200px] mx-auto flex flex-col lg:flex-row gap-12">
+          <aside className="lg:w-56 flex-shrink-0">
+            <nav aria-label={t("docs.title")} className="lg:sticky lg:top-8">
+              <a href={localizedPath(DOCS_PATH, language)} className="block mb-2 font-semibold text-[#f5f5f7]">
+                {t("docs.title")}
+              </a>
+              <SidebarTree nodes={sidebar} current={article?.path} />
+            </nav>
+          </aside>
+
+          <div className="flex-1 min-w-0 max-w-[760px]">
+            {article ? (
+              <Article article={article} pages={findNode(sidebar, article.path)?.children ?? []} />
+            ) : (
+              <>
+                <h1 className="text-4xl font-semibold tracking-tight mb-4">{t("docs.title")}</h1>
+                <p className="text-lg text-[#86868b]">{t("docs.intro")}</p>
+                <PageList nodes={sidebar} />
+              </>
+            )}
+          </div>
+
+          {article && (
+            <aside className="hidden xl:block w-56 flex-shrink-0">
+              <div className="sticky top-8">
+                <TableOfContents toc={article.toc} />
+              </div>
+            </aside>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
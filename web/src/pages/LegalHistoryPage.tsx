@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { localizedPath } from "../i18n/i18n";
+import { type LegalDocumentId, formatEffectiveDate, legalDocumentPaths, legalVersions } from "../legal/documents";
+import { diffLegalTexts } from "../legal/diff";
+import { EnglishVersionNotice } from "../components/EnglishVersionNotice";
+import { Layout } from "../components/Layout";
+import { LegalDiff } from "../components/LegalDiff";
+import { EnglishOnlyNotice, LegalDocument } from "../components/LegalDocument";
+
+/** What the history page shows, from its query string: `?version=1`, or `?from=1&to=2`. */
+type HistoryView = { version: number } | { from: number; to: number };
+
+/**
+ * The archive of a legal text at `<path>/history`: every version with its
+ * summary of changes, and the differences between any two versions, the
+ * previous and current ones by default. `?version=` shows a past version in
+ * full. The prerendered page can't know the query string, so it shows the
+ * default view until hydrated.
+ */
+export function LegalHistoryPage({ document }: { document: LegalDocumentId }) {
+  const { t, language } = useLanguage();
+  const versions = legalVersions(document, language);
+  const current = versions.length;
+  const historyPath = localizedPath(`${legalDocumentPaths[document]}/history`, language);
+  const [view, setView] = useState<HistoryView>({ from: Math.max(current - 1, 1), to: current });
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const number = (name: string) => {
+      const value = Number(params.get(name));
+      return Number.isInteger(value) && value >= 1 && value <= current ? value : undefined;
+    };
+    const version = number("version");
+    const from = number("from");
+    const to = number("to");
+    if (version) setView({ version });
+    else if (from && to) setView({ from, to });
+  }, [current]);
+
+  const compare = (from: number, to: number) => {
+    setView({ from, to });
+    window.history.replaceState(null, "", `?from=${from}&to=${to}#compare`);
+  };
+  const versionLabel = (version: number) =>
+    t("legal.versionOption", { version, date: formatEffectiveDate(versions[version - 1]!.effective, language) });
+
+  if ("version" in view) {
+    const shown = versions[view.version - 1]!;
+    return (
+      <Layout>
+        <div className="px-6 py-20">
+          <div className="max-w-[800px] mx-auto">
+            <p className="mb-8 text-sm">
+              <a href={historyPath} className="text-blue-500 hover:underline">{t("legal.backToHistory")}</a>
+            </p>
+            {view.version < current && (
+              <div className="mb-8 px-4 py-3 rounded-xl border border-yellow-500/30 bg-yellow-500/10 text-sm text-[#f5f5f7]">
+                {t("legal.archived", { version: shown.version, date: formatEffectiveDate(shown.effective, language) })}{" "}
+                <a href={localizedPath(legalDocumentPaths[document], language)} className="text-blue-500 hover:underline">
+                  {t("legal.readCurrent")}
+                </a>
+              </div>
+            )}
+            <LegalDocument document={document} version={shown} />
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const from = versions[view.from - 1]!;
+  const to = versions[view.to - 1]!;
+  const lines = diffLegalTexts(from.sections, to.sections, language);
+
+  return (
+    <Layout>
+      <div className="px-6 py-20">
+        <div className="max-w-[800px] mx-auto">
+          <h1 className="text-4xl font-semibold tracking-tight mb-2">
+            {t("legal.historyTitle", { document: t(`${document}.title`) })}
+          </h1>
+          <p className="text-[#86868b] mb-8">{t("legal.historyIntro")}</p>
+
+          <EnglishVersionNotice path={`${legalDocumentPaths[document]}/history`} />
+
+          <ol className="space-y-4 mb-16">
+            {[...versions].reverse().map(version => (
+              <li key={version.version} className="bg-white/[0.03] border border-white/8 rounded-3xl p-6">
+                <div className="flex flex-wrap items-center gap-3 mb-2">
+                  <h2 className="text-lg font-semibold">
+                    {t("legal.effective", { version: version.version, date: formatEffectiveDate(version.effective, language) })}
+                  </h2>
+                  {version.version === current && (
+                    <span className="px-2 py-0.5 text-xs font-medium bg-blue-500 text-white rounded-full">{t("legal.current")}</span>
+                  )}
+                </div>
+                <p className="text-[#86868b] mb-3">{version.summary}</p>
+                <div className="flex gap-6 text-sm">
+                  <a href={`${historyPath}?version=${version.version}`} className="text-blue-500 hover:underline">
+                    {t("legal.read")}
+                  </a>
+                  {version.version > 1 && (
+                    <a
+                      href={`${historyPath}?from=${version.version - 1}&to=${version.version}#compare`}
+                      onClick={e => {
+                        e.preventDefault();
+                        compare(version.version - 1, version.version);
+                        window.document.getElementById("compare")?.scrollIntoView();
+                      }}
+                      className="text-blue-500 hover:underline"
+                    >
+                      {t("legal.changes")}
+                    </a>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <section id="compare">
+            <h2 className="text-2xl font-semibold tracking-tight mb-4">{t("legal.compare")}</h2>
+            {current < 2 ? (
+              <p className="text-[#86868b]">{t("legal.onlyOneVersion")}</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-6 mb-8 text-sm text-[#86868b]">
+                  {(["from", "to"] as const).map(end => (
+                    <label key={end} className="flex items-center gap-2">
+                      {t(`legal.${end}`)}
+                      <select
+                        value={view[end]}
+                        onChange={e => {
+                          const value = Number(e.target.value);
+                          compare(end === "from" ? value : view.from, end === "to" ? value : view.to);
+                        }}
+                        className="bg-transparent border border-white/12 rounded-lg px-2 py-1 text-zinc-300 cursor-pointer"
+                      >
+                        {versions.map(({ version }) => (
+                          <option key={version} value={version} className="bg-[#1d1d1f] text-white">
+                            {versionLabel(version)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <EnglishOnlyNotice version={from.language === language ? to : from} />
+                {lines.every(line => line.type === "equal") ? (
+                  <p className="text-[#86868b]">{t("legal.noChanges")}</p>
+                ) : (
+                  <LegalDiff lines={lines} />
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { Layout } from "../components/Layout";
+import { SubscribeForm } from "../components/SubscribeForm";
+import { type ConfirmStatus, UNSUBSCRIBE_ENDPOINT } from "../newsletter/form";
+
+type Notice = ConfirmStatus | "unsubscribe" | "unsubscribed" | "unsubscribeFailed";
+
+/**
+ * The newsletter's page, where the links in its emails lead: the outcome of
+ * a confirmation link (`?status=`), or a button to unsubscribe with the
+ * token of an unsubscribe link (`?unsubscribe=`). Both are read after
+ * hydration; the prerendered page only has the signup form.
+ */
+export function NewsletterPage() {
+  const { t } = useLanguage();
+  const [notice, setNotice] = useState<Notice>();
+  const [token, setToken] = useState<string>();
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const status = params.get("status");
+    const unsubscribe = params.get("unsubscribe");
+    if (unsubscribe) {
+      setToken(unsubscribe);
+      setNotice("unsubscribe");
+    } else if (status === "confirmed" || status === "expired") {
+      setNotice(status);
+    }
+  }, []);
+
+  const unsubscribe = async () => {
+    try {
+      const response = await fetch(`${UNSUBSCRIBE_ENDPOINT}?token=${encodeURIComponent(token ?? "")}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "List-Unsubscribe=One-Click",
+      });
+      setNotice(response.ok ? "unsubscribed" : "unsubscribeFailed");
+    } catch {
+      setNotice("unsubscribeFailed");
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="px-6 py-20">
+        <div className="max-w-[700px] mx-auto">
+          <h1 className="text-4xl font-semibold tracking-tight mb-2">{t("newsletter.title")}</h1>
+          <p className="text-[#86868b] mb-8">{t("newsletter.subtitle")}</p>
+
+          {notice && (
+            <div role="status" className="bg-white/[0.03] border border-white/8 rounded-3xl p-8 mb-8">
+              <p className={notice === "expired" || notice === "unsubscribeFailed" ? "text-red-400" : "text-[#f5f5f7]"}>
+                {t(`newsletter.notices.${notice}`)}
+              </p>
+              {notice === "unsubscribe" && (
+                <button
+                  type="button"
+                  onClick={unsubscribe}
+                  className="mt-4 py-3 px-6 border border-white/20 text-white rounded-full hover:bg-white/5 transition-colors"
+                >
+                  {t("newsletter.unsubscribe")}
+                </button>
+              )}
+            </div>
+          )}
+
+          {notice !== "unsubscribe" && notice !== "unsubscribed" && <SubscribeForm placement="newsletter" />}
+        </div>
+      </div>
+    </Layout>
+  );
+}
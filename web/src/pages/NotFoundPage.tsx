@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from "react";
+import { useLanguage } from "../i18n/LanguageContext";
+import { localizedPath, stripLanguagePrefix } from "../i18n/i18n";
+import { type Page, pages, similarPages } from "../routes";
+import { Layout } from "../components/Layout";
+
+/**
+ * Served for unknown paths. Suggests the pages whose path resembles the
+ * requested one, or lists every page when none does. The prerendered page
+ * can't know the path, so it lists every page until hydrated.
+ */
+export function NotFoundPage() {
+  const { t, language } = useLanguage();
+  const [suggestions, setSuggestions] = useState<Page[]>([]);
+
+  useEffect(() => {
+    setSuggestions(similarPages(stripLanguagePrefix(window.location.pathname)));
+  }, []);
+
+  const links = suggestions.length > 0 ? suggestions : pages.filter(page => page.indexable);
+
+  return (
+    <Layout>
+      <div className="flex-1 flex flex-col items-center justify-center px-6 py-20 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,rgba(0,113,227,0.15),transparent)]">
+        <div className="max-w-[560px] w-full mx-auto text-center">
+          <p className="text-[#86868b] text-sm font-medium tracking-widest mb-2">404</p>
+          <h1 className="text-5xl font-semibold tracking-tight mb-4">{t("notFound.title")}</h1>
+          <p className="text-xl text-[#86868b] mb-12">{t("notFound.subtitle")}</p>
+
+          <div className="bg-white/[0.03] border border-white/8 rounded-3xl p-8 mb-12 text-left">
+            <h2 className="text-lg font-semibold mb-4">
+              {suggestions.length > 0 ? t("notFound.suggestions") : t("notFound.allPages")}
+            </h2>
+            <ul className="space-y-3">
+              {links.map(page => (
+                <li key={page.path}>
+                  <a href={localizedPath(page.path, language)} className="text-blue-500 hover:underline">
+                    {t(page.name)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <a href={localizedPath("/", language)} className="text-blue-500 hover:underline">{t("common.backToHome")}</a>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -3,3 +3,7 @@ export { PrivacyPage } from "./PrivacyPage";
 export { TermsPage } from "./TermsPage";
 export { RefundPage } from "./RefundPage";
 export { SupportPage } from "./SupportPage";
+export { NotFoundPage } from "./NotFoundPage";
+export { LegalHistoryPage } from "./LegalHistoryPage";
+export { NewsletterPage } from "./NewsletterPage";
+export { DocsPage } from "./DocsPage";
@@ -0,0 +1,90 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { prerender } from "react-dom/static";
+import { App } from "./App";
+import { PrivacyPage, TermsPage, RefundPage, SupportPage, ThanksPage, NewsletterPage, NotFoundPage, LegalHistoryPage, DocsPage } from "./pages";
+import { type Language, loadCatalog } from "./i18n/i18n";
+import { LanguageProvider } from "./i18n/LanguageContext";
+import type { DocsView } from "./docs/view";
+import type { PrerenderedEntry } from "./routes";
+
+/**
+ * React trees rendered into each page's `#root` at build time, keyed by the
+ * page's entry in the registry (`routes.ts`). Keep in sync with the elements
+ * passed to `mount()` in the entry scripts.
+ */
+const views: Record<PrerenderedEntry, (language: Language) => React.ReactElement> = {
+  "index.html": language => <App language={language} />,
+  "privacy/index.html": language => (
+    <LanguageProvider language={language}>
+      <PrivacyPage />
+    </LanguageProvider>
+  ),
+  "privacy/history/index.html": language => (
+    <LanguageProvider language={language}>
+      <LegalHistoryPage document="privacy" />
+    </LanguageProvider>
+  ),
+  "terms/index.html": language => (
+    <LanguageProvider language={language}>
+      <TermsPage />
+    </LanguageProvider>
+  ),
+  "terms/history/index.html": language => (
+    <LanguageProvider language={language}>
+      <LegalHistoryPage document="terms" />
+    </LanguageProvider>
+  ),
+  "refund/index.html": language => (
+    <LanguageProvider language={language}>
+      <RefundPage />
+    </LanguageProvider>
+  ),
+  "support/index.html": language => (
+    <LanguageProvider language={language}>
+      <SupportPage />
+    </LanguageProvider>
+  ),
+  "thanks/index.html": language => (
+    <LanguageProvider language={language}>
+      <ThanksPage />
+    </LanguageProvider>
+  ),
+  "newsletter/index.html": language => (
+    <LanguageProvider language={language}>
+      <NewsletterPage />
+    </LanguageProvider>
+  ),
+  "404.html": language => (
+    <LanguageProvider language={language}>
+      <NotFoundPage />
+    </LanguageProvider>
+  ),
+};
+
+export async function renderPage(entry: PrerenderedEntry, language: Language): Promise<string> {
+  return renderView(views[entry], language);
+}
+
+/** Renders a page of the documentation, from its view (see `docs/content.ts`). */
+export async function renderDocsPage(view: DocsView, language: Language): Promise<string> {
+  return renderView(
+    language => (
+      <LanguageProvider language={language}>
+        <DocsPage view={view} />
+      </LanguageProvider>
+    ),
+    language,
+  );
+}
+
+async function renderView(render: (language: Language) => React.ReactElement, language: Language): Promise<string> {
+  await loadCatalog(language);
+
+  // `prerender` waits for lazy() components such as the FAQ section to load.
+  // Once they have, `renderToString` renders them inline, whereas the
+  // streaming renderers would outline large Suspense boundaries behind
+  // client-side swap scripts that visitors without JavaScript never run.
+  await prerender(render(language));
+  return renderToString(render(language));
+}
@@ -0,0 +1,124 @@
+import type { Language } from "./i18n/i18n";
+
+/**
+ * What VVTerm costs: tiers, their limits, the App Store products that unlock
+ * them and their prices per storefront. Product IDs and the prices of the
+ * StoreKit test storefront mirror `VVTermStoreKit.storekit`, and the
+ * free-tier limits mirror `FreeTierLimits` in the app; `bun run
+ * check:pricing` verifies both.
+ */
+
+/** Limits of the free tier, also the values of the `{workspaces}`, `{servers}` and `{tabs}` placeholders in the catalogs. */
+export const FREE_LIMITS = { workspaces: 1, servers: 3, tabs: 1 };
+
+export type ProductKey = "monthly" | "yearly" | "lifetime";
+
+export interface Product {
+  /** App Store product ID. */
+  productId: string;
+  /** StoreKit product type. */
+  type: "RecurringSubscription" | "NonConsumable";
+  /** Billing period of subscriptions, as an ISO 8601 duration. */
+  period?: "P1M" | "P1Y";
+}
+
+export const products: Record<ProductKey, Product> = {
+  monthly: { productId: "com.vivy.vivyterm.pro.monthly", type: "RecurringSubscription", period: "P1M" },
+  yearly: { productId: "com.vivy.vivyterm.pro.yearly", type: "RecurringSubscription", period: "P1Y" },
+  lifetime: { productId: "com.vivy.vivyterm.pro.lifetime", type: "NonConsumable" },
+};
+
+export type TierId = "free" | "pro" | "lifetime";
+
+export interface Tier {
+  /** Usage limits; tiers without limits are unlimited. */
+  limits?: typeof FREE_LIMITS;
+  /** Products that unlock the tier, in the order they are offered. */
+  products: readonly ProductKey[];
+}
+
+export const tiers = {
+  free: { limits: FREE_LIMITS, products: [] },
+  pro: { products: ["monthly", "yearly"] },
+  lifetime: { products: ["lifetime"] },
+} as const satisfies Record<TierId, Tier>;
+
+/** Billing periods offered for Pro. */
+export type BillingCycle = (typeof tiers.pro.products)[number];
+
+export type StorefrontId = "US" | "GB" | "EZ" | "JP" | "CN";
+
+export interface Storefront {
+  /** StoreKit storefront (ISO 3166 alpha-3) these prices were taken from. */
+  storeKitCode: string;
+  /** Countries (ISO 3166 alpha-2) whose visitors are shown these prices. */
+  countries: readonly string[];
+  /** ISO 4217 currency code. */
+  currency: string;
+  prices: Record<ProductKey, number>;
+}
+
+/**
+ * Local App Store prices, keyed by the region they are labelled with
+ * (`EZ` is the euro area, which shares one price). Keep in sync with the
+ * price schedules in App Store Connect.
+ */
+export const storefronts: Record<StorefrontId, Storefront> = {
+  US: { storeKitCode: "USA", countries: ["US"], currency: "USD", prices: { monthly: 6.49, yearly: 19.99, lifetime: 29.99 } },
+  GB: { storeKitCode: "GBR", countries: ["GB"], currency: "GBP", prices: { monthly: 6.49, yearly: 19.99, lifetime: 29.99 } },
+  EZ: {
+    storeKitCode: "DEU",
+    countries: ["AT", "BE", "DE", "EE", "ES", "FI", "FR", "GR", "HR", "IE", "IT", "LT", "LU", "LV", "NL", "PT", "SI", "SK"],
+    currency: "EUR",
+    prices: { monthly: 6.99, yearly: 21.99, lifetime: 32.99 },
+  },
+  JP: { storeKitCode: "JPN", countries: ["JP"], currency: "JPY", prices: { monthly: 1000, yearly: 3000, lifetime: 4500 } },
+  CN: { storeKitCode: "CHN", countries: ["CN"], currency: "CNY", prices: { monthly: 45, yearly: 138, lifetime: 198 } },
+};
+
+/** Storefront shown in each language until the visitor's country is known, and to crawlers. */
+export const defaultStorefronts: Record<Language, StorefrontId> = {
+  en: "US",
+  zh: "CN",
+};
+
+/** Cookie holding the storefront a visitor picked by hand. */
+export const STOREFRONT_COOKIE = "vvterm-storefront";
+
+export function isStorefront(value: string | null | undefined): value is StorefrontId {
+  return !!value && Object.hasOwn(storefronts, value);
+}
+
+/**
+ * Picks the storefront for a visitor's preferred locales, most preferred
+ * first (`navigator.languages`, or the tags of an `Accept-Language` header).
+ * Tags without a region use their most likely one: `ja` → Japan.
+ */
+export function storefrontForLocales(locales: readonly string[], language: Language): StorefrontId {
+  for (const tag of locales) {
+    let region: string | undefined;
+    try {
+      region = new Intl.Locale(tag).maximize().region;
+    } catch {
+      continue;
+    }
+    const match = (Object.keys(storefronts) as StorefrontId[]).find(id => region && storefronts[id].countries.includes(region));
+    if (match) return match;
+  }
+  return defaultStorefronts[language];
+}
+
+/** The storefront picked by hand, if any. */
+export function savedStorefront(): StorefrontId | undefined {
+  const value = document.cookie.match(new RegExp(`(?:^|; )${STOREFRONT_COOKIE}=([^;]*)`))?.[1];
+  return isStorefront(value) ? value : undefined;
+}
+
+export function saveStorefront(id: StorefrontId): void {
+  document.cookie = `${STOREFRONT_COOKIE}=${id}; path=/; max-age=31536000; samesite=lax`;
+}
+
+/** Fraction saved by paying yearly instead of twelve monthly payments. */
+export function yearlySavings(storefront: Storefront): number {
+  return 1 - storefront.prices.yearly / (storefront.prices.monthly * 12);
+}
@@ -0,0 +1,39 @@
+export interface RateLimiter {
+  /**
+   * Counts a request from `key`, such as an IP address. Over the limit the
+   * request isn't counted, and `retryAfter` says in how many seconds the
+   * oldest counted one leaves the window.
+   */
+  take(key: string): { allowed: true } | { allowed: false; retryAfter: number };
+}
+
+/**
+ * Allows each key `limit` requests in any `windowMs` (a sliding window).
+ * Counts are kept in memory, so they start over when the server restarts.
+ */
+export function rateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const requests = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  return {
+    take(key) {
+      const now = Date.now();
+      // Forget keys that have been quiet for a whole window, now and then.
+      if (now - lastSweep > windowMs) {
+        for (const [other, times] of requests) {
+          if (times.at(-1)! <= now - windowMs) requests.delete(other);
+        }
+        lastSweep = now;
+      }
+
+      const times = (requests.get(key) ?? []).filter(time => time > now - windowMs);
+      if (times.length >= limit) {
+        requests.set(key, times);
+        return { allowed: false, retryAfter: Math.ceil((times[0]! + windowMs - now) / 1000) };
+      }
+      times.push(now);
+      requests.set(key, times);
+      return { allowed: true };
+    },
+  };
+}
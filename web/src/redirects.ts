@@ -0,0 +1,119 @@
+import { type Language, defaultLanguage, languageFromPath, languages, localizedPath, stripLanguagePrefix } from "./i18n/i18n";
+import { pages } from "./routes";
+import { APP_STORE_URL } from "./site";
+
+export interface Redirect {
+  /** Path in the default language. A trailing `/*` matches everything below it. */
+  from: string;
+  /** Site path or absolute URL. `:splat` stands for what the `*` of `from` matched. */
+  to: string;
+  /** 301 for moves, 302 for links that may point elsewhere later. Defaults to 301. */
+  status?: 301 | 302;
+}
+
+/**
+ * Old and short URLs that still circulate in posts and links. Site paths
+ * apply in every language: `/zh/eula` goes to `/zh/terms`.
+ */
+export const redirects: Redirect[] = [
+  { from: "/eula", to: "/terms" },
+  { from: "/terms-of-use", to: "/terms" },
+  { from: "/terms-of-service", to: "/terms" },
+  { from: "/tos", to: "/terms" },
+  { from: "/privacy-policy", to: "/privacy" },
+  { from: "/refunds", to: "/refund" },
+  { from: "/refund-policy", to: "/refund" },
+  { from: "/contact", to: "/support" },
+  { from: "/help", to: "/support" },
+  { from: "/pricing", to: "/#pricing" },
+  { from: "/faq", to: "/#faq" },
+  { from: "/legal/*", to: "/:splat" },
+  { from: "/download", to: APP_STORE_URL, status: 302 },
+  { from: "/appstore", to: APP_STORE_URL, status: 302 },
+];
+
+const isExternal = (to: string) => /^https?:\/\//.test(to);
+
+/**
+ * Whether a computed site path stays on the site: browsers read `//host`
+ * and `/\host` as links to another site, which a `:splat` could make.
+ */
+const isSitePath = (location: string) => location.startsWith("/") && !/^\/[/\\]/.test(location);
+
+/** Adds the query string `search` to `location`, before its fragment. */
+function withQuery(location: string, search: string): string {
+  if (!search) return location;
+  const [base = "", fragment] = location.split("#");
+  const query = base.includes("?") ? `&${search.slice(1)}` : search;
+  return base + query + (fragment === undefined ? "" : `#${fragment}`);
+}
+
+/** The redirect's target for `path` (in the default language), if `from` matches it. */
+function matchRedirect(redirect: Redirect, path: string): string | undefined {
+  if (redirect.from.endsWith("/*")) {
+    const base = redirect.from.slice(0, -1);
+    if (!path.startsWith(base) || path.length === base.length) return undefined;
+    return redirect.to.replace(":splat", path.slice(base.length));
+  }
+  return path === redirect.from ? redirect.to : undefined;
+}
+
+/**
+ * Where to send a request for `pathname`, if anywhere: a redirect from the
+ * table, or the path without repeated slashes and its trailing slash
+ * (`/privacy/` → `/privacy`; language home pages keep theirs). The table is
+ * matched after the slashes are removed, so `/eula/` goes straight to
+ * `/terms`. The query string `search` is carried over. Site paths that
+ * would lead to another site are never redirected to.
+ */
+export function resolveRedirect(pathname: string, search = ""): { location: string; status: 301 | 302 } | undefined {
+  const collapsed = pathname.replace(/\/{2,}/g, "/");
+  const language = languageFromPath(collapsed);
+  const home = localizedPath("/", language);
+  const normalized = collapsed !== home && collapsed.endsWith("/") ? collapsed.replace(/\/+$/, "") : collapsed;
+  const path = stripLanguagePrefix(normalized);
+
+  for (const redirect of redirects) {
+    const to = matchRedirect(redirect, path);
+    if (to !== undefined) {
+      if (isExternal(to)) return { location: withQuery(to, search), status: redirect.status ?? 301 };
+      const location = localizedPath(to, language);
+      return isSitePath(location) ? { location: withQuery(location, search), status: redirect.status ?? 301 } : undefined;
+    }
+  }
+
+  if (normalized === pathname || !isSitePath(normalized)) return undefined;
+  return { location: withQuery(normalized, search), status: 301 };
+}
+
+/**
+ * The redirect's rules for static hosts, which can't check where a `:splat`
+ * leads: redirects below a path to site paths are written out for each
+ * page instead (`/legal/privacy /privacy`).
+ */
+function staticRules({ from, to, status = 301 }: Redirect): Redirect[] {
+  if (!from.endsWith("/*") || isExternal(to)) return [{ from, to, status }];
+  const base = from.slice(0, -2);
+  return pages
+    .filter(page => page.path !== "/")
+    .map(page => ({ from: base + page.path, to: to.replace(":splat", page.path.slice(1)), status }));
+}
+
+/**
+ * The redirect table and the localized 404 pages in the `_redirects` format
+ * of static hosts such as Netlify and Cloudflare Pages. Written by the build.
+ */
+export function redirectsFile(): string {
+  const lines = (Object.keys(languages) as Language[]).flatMap(language =>
+    redirects.flatMap(staticRules).map(({ from, to, status = 301 }) => {
+      const target = isExternal(to) ? to : localizedPath(to, language);
+      return `${localizedPath(from, language)} ${target} ${status}`;
+    }),
+  );
+
+  const notFound = (Object.keys(languages) as Language[])
+    .filter(language => language !== defaultLanguage)
+    .map(language => `/${language}/* /${language}/404.html 404`);
+
+  return [...lines, ...notFound, "/* /404.html 404", ""].join("\n");
+}
@@ -1,15 +1,11 @@
 import React from "react";
-import { createRoot } from "react-dom/client";
 import { RefundPage } from "../pages";
+import { LanguageProvider } from "../i18n/LanguageContext";
+import { mount } from "../mount";
 import "../index.css";
 
-function start() {
-  const root = createRoot(document.getElementById("root")!);
-  root.render(<RefundPage />);
-}
-
-if (document.readyState === "loading") {
-  document.addEventListener("DOMContentLoaded", start);
-} else {
-  start();
-}
+mount(
+  <LanguageProvider>
+    <RefundPage />
+  </LanguageProvider>,
+);
@@ -0,0 +1,225 @@
+import { faqStructuredData } from "./faq";
+import { appStructuredData } from "./schema";
+import { SITE_URL } from "./site";
+import { type Language, type TranslationKey, defaultLanguage, languages, localizedPath } from "./i18n/i18n";
+
+export interface PageDefinition {
+  /** URL path of the page in the default language. */
+  path: string;
+  /** HTML entry point, relative to `src/`. */
+  entry: string;
+  /** Translation key of the page's short name, for links to it. */
+  name: TranslationKey;
+  /** Translation key of the page `<title>`. */
+  title: TranslationKey;
+  /** Translation key of the page meta description. */
+  description: TranslationKey;
+  /** Whether search engines may index the page. Only indexable pages are listed in the sitemap. */
+  indexable: boolean;
+  /** `false` for documents served at many URLs, which get no canonical URL or alternates. */
+  canonical?: false;
+  /** Sitemap `<priority>`, from 0.0 to 1.0. */
+  priority: number;
+  /** Sitemap `<changefreq>`. */
+  changefreq: "daily" | "weekly" | "monthly" | "yearly";
+  /** Social preview image (Open Graph and Twitter card), a path on the site. Defaults to `/og.png`. */
+  image?: string;
+  /** `<meta name>` tags of the page, such as `keywords`, besides the site-wide ones. */
+  meta?: Record<string, string>;
+  /** JSON-LD documents added to the page `<head>` in each language. */
+  structuredData?: (language: Language) => object[];
+}
+
+/**
+ * Every page of the website. The dev server routes, the `Bun.build`
+ * entrypoints, the prerendered views and `sitemap.xml` are all derived from
+ * this list, so a page is added here and nowhere else.
+ */
+export const pages = [
+  {
+    path: "/",
+    entry: "index.html",
+    name: "meta.home.name",
+    title: "meta.home.title",
+    description: "meta.home.description",
+    indexable: true,
+    priority: 1.0,
+    changefreq: "weekly",
+    meta: {
+      keywords:
+        "ssh terminal, mosh client, tailscale ssh, cloudflare tunnel ssh, ios ssh, macos ssh, terminal app, server management, remote server, vps manager, ssh client, icloud sync, keychain, libghostty, gpu terminal, mobile ssh, ipad terminal",
+    },
+    structuredData: language => [appStructuredData(language), faqStructuredData(language)],
+  },
+  {
+    path: "/privacy",
+    entry: "privacy/index.html",
+    name: "meta.privacy.name",
+    title: "meta.privacy.title",
+    description: "meta.privacy.description",
+    indexable: true,
+    priority: 0.5,
+    changefreq: "monthly",
+  },
+  {
+    path: "/privacy/history",
+    entry: "privacy/history/index.html",
+    name: "meta.privacyHistory.name",
+    title: "meta.privacyHistory.title",
+    description: "meta.privacyHistory.description",
+    indexable: true,
+    priority: 0.3,
+    changefreq: "monthly",
+  },
+  {
+    path: "/terms",
+    entry: "terms/index.html",
+    name: "meta.terms.name",
+    title: "meta.terms.title",
+    description: "meta.terms.description",
+    indexable: true,
+    priority: 0.5,
+    changefreq: "monthly",
+  },
+  {
+    path: "/terms/history",
+    entry: "terms/history/index.html",
+    name: "meta.termsHistory.name",
+    title: "meta.termsHistory.title",
+    description: "meta.termsHistory.description",
+    indexable: true,
+    priority: 0.3,
+    changefreq: "monthly",
+  },
+  {
+    path: "/refund",
+    entry: "refund/index.html",
+    name: "meta.refund.name",
+    title: "meta.refund.title",
+    description: "meta.refund.description",
+    indexable: true,
+    priority: 0.5,
+    changefreq: "monthly",
+  },
+  {
+    path: "/support",
+    entry: "support/index.html",
+    name: "meta.support.name",
+    title: "meta.support.title",
+    description: "meta.support.description",
+    indexable: true,
+    priority: 0.5,
+    changefreq: "monthly",
+  },
+  {
+    path: "/thanks",
+    entry: "thanks/index.html",
+    name: "meta.thanks.name",
+    title: "meta.thanks.title",
+    description: "meta.thanks.description",
+    indexable: false,
+    priority: 0.1,
+    changefreq: "yearly",
+  },
+  {
+    path: "/newsletter",
+    entry: "newsletter/index.html",
+    name: "meta.newsletter.name",
+    title: "meta.newsletter.title",
+    description: "meta.newsletter.description",
+    indexable: false,
+    priority: 0.1,
+    changefreq: "yearly",
+  },
+] as const satisfies readonly PageDefinition[];
+
+/**
+ * The 404 page, served with status 404 for every unknown path in the
+ * language of its prefix. It has no URL of its own; the build writes it to
+ * `404.html` (and `zh/404.html`) for static hosts.
+ */
+export const notFoundPage = {
+  path: "/404",
+  entry: "404.html",
+  name: "meta.notFound.name",
+  title: "meta.notFound.title",
+  description: "meta.notFound.description",
+  indexable: false,
+  canonical: false,
+  priority: 0,
+  changefreq: "yearly",
+} as const satisfies PageDefinition;
+
+/**
+ * The template of the documentation, which has a page for every Markdown
+ * file of the content directory (see `docs/content.ts`). The build and the
+ * dev server render each page into it with that page's own head metadata;
+ * this definition only names the documentation in the `<head>` of its
+ * overview, `/docs`.
+ */
+export const docsTemplate = {
+  path: "/docs",
+  entry: "docs/index.html",
+  name: "meta.docs.name",
+  title: "meta.docs.title",
+  description: "meta.docs.description",
+  indexable: true,
+  priority: 0.6,
+  changefreq: "weekly",
+} as const satisfies PageDefinition;
+
+/** The documents with one view each, which are prerendered as they are: the pages and the 404 page. */
+export const prerenderedDocuments = [...pages, notFoundPage] as const;
+
+/** Every HTML document the build bundles: the pages, the 404 page and the documentation's template. */
+export const documents = [...prerenderedDocuments, docsTemplate] as const;
+
+export type Page = (typeof pages)[number];
+export type PageEntry = (typeof documents)[number]["entry"];
+export type PrerenderedEntry = (typeof prerenderedDocuments)[number]["entry"];
+
+export function canonicalUrl(page: PageDefinition, language: Language): string {
+  return `${SITE_URL}${localizedPath(page.path, language)}`;
+}
+
+/**
+ * Indexable pages whose path resembles `path`, most similar first: those
+ * whose path contains or is contained in it (`/privacy-policy` → `/privacy`),
+ * then those within a few typos. For the 404 page's suggestions.
+ */
+export function similarPages(path: string, limit = 3): Page[] {
+  const slug = path.toLowerCase().replace(/\.\w+$/, "").split("/").filter(Boolean).pop() ?? "";
+  if (!slug) return [];
+
+  return pages
+    .filter(page => page.indexable && page.path !== "/")
+    .map(page => {
+      const candidate = page.path.slice(1);
+      const score = slug.includes(candidate) || candidate.includes(slug) ? 0 : editDistance(slug, candidate) / candidate.length;
+      return { page, score };
+    })
+    .filter(({ score }) => score <= 0.4)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ page }) => page);
+}
+
+/** Levenshtein distance between two strings. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/** `hreflang` alternates of a page: one per language plus `x-default`. */
+export function alternateUrls(page: PageDefinition): { hreflang: string; href: string }[] {
+  return (Object.keys(languages) as Language[])
+    .map(language => ({ hreflang: language as string, href: canonicalUrl(page, language) }))
+    .concat({ hreflang: "x-default", href: canonicalUrl(page, defaultLanguage) });
+}
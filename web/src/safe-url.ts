@@ -0,0 +1,9 @@
+/**
+ * Whether a link target is one pages may have: a web or mail link, or a
+ * relative one. Browsers ignore control characters and spaces in a scheme,
+ * so `java\tscript:` is one too.
+ */
+export function isSafeUrl(target: string): boolean {
+  const scheme = target.replace(/[\u0000-\u0020]/g, "").match(/^([a-z][a-z\d+.-]*):/i)?.[1];
+  return scheme === undefined || ["http", "https", "mailto"].includes(scheme.toLowerCase());
+}
@@ -0,0 +1,78 @@
+import { type Language, type TranslationKey, getTranslation, getTranslationList, localizedPath } from "./i18n/i18n";
+import { type ProductKey, defaultStorefronts, products, storefronts, tiers } from "./pricing";
+import { SITE_URL } from "./site";
+
+/**
+ * `SoftwareApplication` structured data for the home page. The offers come
+ * from the pricing model, in the default storefront of the language.
+ */
+export function appStructuredData(language: Language): object {
+  const { currency, prices } = storefronts[defaultStorefronts[language]];
+  const t = (key: TranslationKey) => getTranslation(language, key);
+
+  const productNames: Record<ProductKey, string> = {
+    monthly: `${t("pricing.pro.name")} (${t("pricing.pro.billing.monthly")})`,
+    yearly: `${t("pricing.pro.name")} (${t("pricing.pro.billing.yearly")})`,
+    lifetime: t("pricing.lifetime.name"),
+  };
+  const productDescriptions: Record<ProductKey, string> = {
+    monthly: t("pricing.pro.description"),
+    yearly: t("pricing.pro.description"),
+    lifetime: t("pricing.lifetime.description"),
+  };
+
+  const freeLimits = getTranslationList(language, "pricing.free.features", tiers.free.limits).slice(0, 3);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "SoftwareApplication",
+    name: "VVTerm",
+    applicationCategory: "UtilitiesApplication",
+    operatingSystem: "iOS 16+, macOS 13+",
+    offers: [
+      {
+        "@type": "Offer",
+        name: t("pricing.free.name"),
+        price: "0",
+        priceCurrency: currency,
+        description: freeLimits.join(", "),
+      },
+      ...(Object.entries(products) as [ProductKey, (typeof products)[ProductKey]][]).map(([key, product]) => ({
+        "@type": "Offer",
+        name: productNames[key],
+        price: String(prices[key]),
+        priceCurrency: currency,
+        description: productDescriptions[key],
+        ...(product.period && {
+          priceSpecification: {
+            "@type": "UnitPriceSpecification",
+            price: String(prices[key]),
+            priceCurrency: currency,
+            billingDuration: product.period,
+          },
+        }),
+      })),
+    ],
+    description: "SSH terminal app for iOS and macOS with standard SSH, Mosh, Tailscale SSH, and Cloudflare Tunnel SSH.",
+    url: SITE_URL + localizedPath("/", language),
+    image: `${SITE_URL}/og.png`,
+    author: {
+      "@type": "Organization",
+      name: "Vivy Technologies",
+    },
+    softwareVersion: "1.0",
+    features: [
+      "Standard SSH",
+      "Mosh transport with SSH fallback",
+      "Tailscale SSH",
+      "Cloudflare Tunnel SSH",
+      "iCloud sync",
+      "Keychain security",
+      "GPU terminal (libghostty)",
+      "Multiple workspaces",
+      "Environment filters",
+      "Voice-to-command",
+      "Multiple connection tabs",
+    ],
+  };
+}
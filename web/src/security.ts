@@ -0,0 +1,117 @@
+import { UMAMI } from "./analytics/analytics";
+
+/** Where browsers send CSP violation reports (see `csp-reports.ts`). */
+export const CSP_REPORT_PATH = "/api/csp-report";
+
+/**
+ * Written by the build next to the pages: the hashes of each page's inline
+ * scripts, by URL path of the page file (`/zh/index.html`).
+ */
+export const CSP_HASHES_FILE = "csp-hashes.json";
+
+/**
+ * `enforce` blocks violations; `report-only` only reports them, for rolling
+ * out changes to the policy. Set with the `CSP_MODE` environment variable.
+ */
+export type CspMode = "enforce" | "report-only";
+
+/** How the policy allows the page's scripts. */
+export type ScriptSources =
+  /** Per-request nonce, set on every script of the page by `renderDocument()`. */
+  | { nonce: string }
+  /** Hashes of the page's inline scripts, computed by the build for static pages. */
+  | { hashes: string[] };
+
+const UMAMI_ORIGIN = new URL(UMAMI.src).origin;
+
+// Google tag loads further scripts, pixels and frames from these for Google Ads.
+const GOOGLE_SCRIPTS = [
+  "https://www.googletagmanager.com",
+  "https://www.googleadservices.com",
+  "https://googleads.g.doubleclick.net",
+  "https://www.google.com",
+];
+const GOOGLE_CONNECT = [
+  "https://www.google.com",
+  "https://*.google-analytics.com",
+  "https://*.doubleclick.net",
+  "https://www.googleadservices.com",
+];
+const GOOGLE_IMAGES = [
+  "https://www.google.com",
+  "https://googleads.g.doubleclick.net",
+  "https://*.g.doubleclick.net",
+  "https://www.googletagmanager.com",
+];
+const GOOGLE_FRAMES = ["https://td.doubleclick.net", "https://www.googletagmanager.com"];
+
+export function createNonce(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString("base64");
+}
+
+/** CSP hash sources of the inline scripts in `html`, including JSON-LD blocks. */
+export function inlineScriptHashes(html: string): string[] {
+  const hashes = new Set<string>();
+  for (const [, attributes = "", content = ""] of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/g)) {
+    if (/\bsrc=/.test(attributes)) continue;
+    hashes.add(`'sha256-${new Bun.CryptoHasher("sha256").update(content).digest("base64")}'`);
+  }
+  return [...hashes];
+}
+
+/**
+ * The site's Content Security Policy. Scripts run only if they carry the
+ * request's nonce (and, through `'strict-dynamic'`, whatever those load) or,
+ * for prerendered pages, if they are our own or the analytics providers'
+ * and inline ones match a hash. Styles allow `'unsafe-inline'` for React's
+ * `style` attributes.
+ */
+export function contentSecurityPolicy(scripts: ScriptSources, { production }: { production: boolean }): string {
+  const scriptSrc =
+    "nonce" in scripts
+      ? [`'nonce-${scripts.nonce}'`, "'strict-dynamic'"]
+      : ["'self'", ...scripts.hashes, UMAMI_ORIGIN, ...GOOGLE_SCRIPTS];
+
+  const directives: Record<string, string[]> = {
+    "default-src": ["'self'"],
+    "script-src": scriptSrc,
+    "style-src": ["'self'", "'unsafe-inline'"],
+    "img-src": ["'self'", "data:", ...GOOGLE_IMAGES],
+    "connect-src": ["'self'", UMAMI_ORIGIN, ...GOOGLE_CONNECT],
+    "frame-src": GOOGLE_FRAMES,
+    "object-src": ["'none'"],
+    "base-uri": ["'none'"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+    // The dev server runs on plain-HTTP localhost.
+    ...(production && { "upgrade-insecure-requests": [] }),
+    "report-uri": [CSP_REPORT_PATH],
+    "report-to": ["csp"],
+  };
+
+  return Object.entries(directives)
+    .map(([name, values]) => [name, ...values].join(" "))
+    .join("; ");
+}
+
+/**
+ * Headers sent with every response: HSTS (in production), no sniffing or
+ * framing, a strict referrer and permissions policy, and the CSP, which
+ * allows the scripts in `scripts`.
+ */
+export function securityHeaders(
+  scripts: ScriptSources,
+  { production, cspMode }: { production: boolean; cspMode: CspMode },
+): Record<string, string> {
+  const cspHeader = cspMode === "enforce" ? "Content-Security-Policy" : "Content-Security-Policy-Report-Only";
+
+  return {
+    ...(production && { "Strict-Transport-Security": "max-age=63072000; includeSubDomains; preload" }),
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    "Permissions-Policy": "camera=(), microphone=(), geolocation=(), payment=(), usb=(), browsing-topics=()",
+    "X-Frame-Options": "DENY",
+    "Reporting-Endpoints": `csp="${CSP_REPORT_PATH}"`,
+    [cspHeader]: contentSecurityPolicy(scripts, { production }),
+  };
+}
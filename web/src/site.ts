@@ -0,0 +1,17 @@
+/** Public origin of the website, used for canonical and alternate URLs. */
+export const SITE_URL = "https://vvterm.com";
+
+export const SITE_NAME = "VVTerm";
+
+/** VVTerm on the App Store. */
+export const APP_STORE_ID = "6757482822";
+export const APP_STORE_URL = `https://apps.apple.com/app/vvterm/id${APP_STORE_ID}`;
+
+export const GITHUB_REPO_URL = "https://github.com/vivy-company/vvterm";
+export const DISCORD_URL = "https://discord.gg/zemMZtrkSb";
+
+/** Where support requests go, and the address the site gives for questions. */
+export const SUPPORT_EMAIL = "vvterm@vivy.company";
+
+/** Bundle ID of the app, which App Store Server Notifications name. */
+export const APP_BUNDLE_ID = "app.vivy.VivyTerm";
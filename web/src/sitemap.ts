@@ -0,0 +1,49 @@
+import { type Docs, docsSitemapUrls } from "./docs/content";
+import { type Language, languages } from "./i18n/i18n";
+import { alternateUrls, canonicalUrl, docsTemplate, pages } from "./routes";
+
+interface SitemapUrl {
+  loc: string;
+  alternates: { hreflang: string; href: string }[];
+  changefreq: string;
+  priority: number;
+}
+
+/**
+ * Generates `sitemap.xml` from the page registry and the documentation:
+ * every language variant of every indexable page, cross-linked with
+ * `xhtml:link` alternates. Documentation pages are listed in the languages
+ * they are written in.
+ *
+ * There is no `<lastmod>`: it had to be maintained by hand and went stale.
+ */
+export function sitemapXml(docs: Docs): string {
+  const urls: SitemapUrl[] = [
+    ...pages
+      .filter(page => page.indexable)
+      .flatMap(page =>
+        (Object.keys(languages) as Language[]).map(language => ({
+          loc: canonicalUrl(page, language),
+          alternates: alternateUrls(page),
+          changefreq: page.changefreq,
+          priority: page.priority,
+        })),
+      ),
+    ...docsSitemapUrls(docs).map(url => ({ ...url, changefreq: docsTemplate.changefreq, priority: docsTemplate.priority })),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls
+  .map(
+    ({ loc, alternates, changefreq, priority }) => `  <url>
+    <loc>${loc}</loc>
+${alternates.map(({ hreflang, href }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${href}" />`).join("\n")}
+    <changefreq>${changefreq}</changefreq>
+    <priority>${priority.toFixed(1)}</priority>
+  </url>`,
+  )
+  .join("\n")}
+</urlset>
+`;
+}
@@ -0,0 +1,174 @@
+import path from "path";
+import { brotliCompressSync, constants, gzipSync } from "zlib";
+
+/** Precompressed variants, by `Content-Encoding`, in order of preference. */
+const ENCODINGS = [
+  { encoding: "br", extension: ".br" },
+  { encoding: "gzip", extension: ".gz" },
+] as const;
+
+type Encoding = (typeof ENCODINGS)[number]["encoding"];
+
+const COMPRESSIBLE = /\.(html|js|css|map|json|svg|xml|txt)$/;
+
+/** Files smaller than this gain nothing worth a variant. */
+const MIN_COMPRESS_BYTES = 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".xml": "application/xml; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".png": "image/png",
+};
+
+/** Bundler output is named `[name]-[hash].[ext]` (see `build.ts`), so it never changes in place. */
+const HASHED = /-[a-z0-9]{8}\.[^/]+$/;
+
+const CACHE_CONTROL = {
+  hashed: "public, max-age=31536000, immutable",
+  html: "public, max-age=300",
+  other: "public, max-age=3600",
+};
+
+/**
+ * Writes Brotli and gzip variants next to every compressible file in `dir`
+ * (`index.html.br`, `index.html.gz`), where they are smaller than the
+ * original. Run by the build, so the server never compresses on the fly.
+ */
+export async function precompress(dir: string): Promise<number> {
+  let written = 0;
+  for await (const relative of new Bun.Glob("**/*").scan({ cwd: dir })) {
+    if (!COMPRESSIBLE.test(relative)) continue;
+    const file = path.join(dir, relative);
+    const content = new Uint8Array(await Bun.file(file).arrayBuffer());
+    if (content.byteLength < MIN_COMPRESS_BYTES) continue;
+
+    const variants: Record<Encoding, Uint8Array> = {
+      br: brotliCompressSync(content, { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } }),
+      gzip: gzipSync(content, { level: 9 }),
+    };
+    for (const { encoding, extension } of ENCODINGS) {
+      if (variants[encoding].byteLength < content.byteLength) {
+        await Bun.write(file + extension, variants[encoding]);
+        written++;
+      }
+    }
+  }
+  return written;
+}
+
+interface Representation {
+  path: string;
+  etag: string;
+  size: number;
+}
+
+/** A file of the build output, with its precompressed variants. */
+export interface StaticFile extends Representation {
+  contentType: string;
+  cacheControl: string;
+  variants: Partial<Record<Encoding, Representation>>;
+}
+
+async function representation(file: string): Promise<Representation> {
+  const content = await Bun.file(file).arrayBuffer();
+  const hash = new Bun.CryptoHasher("sha256").update(content).digest("base64url").slice(0, 22);
+  return { path: file, etag: `"${hash}"`, size: content.byteLength };
+}
+
+/**
+ * Indexes the build output in `dir` by URL path (`/index.html`,
+ * `/index-2haa8xjw.js`), hashing every file once for its strong ETag.
+ */
+export async function indexStaticFiles(dir: string): Promise<Map<string, StaticFile>> {
+  const files = new Map<string, StaticFile>();
+
+  for await (const relative of new Bun.Glob("**/*").scan({ cwd: dir })) {
+    if (ENCODINGS.some(({ extension }) => relative.endsWith(extension))) continue;
+
+    const file = path.join(dir, relative);
+    const extension = path.extname(relative);
+    const variants: StaticFile["variants"] = {};
+    for (const { encoding, extension: suffix } of ENCODINGS) {
+      if (await Bun.file(file + suffix).exists()) {
+        variants[encoding] = await representation(file + suffix);
+      }
+    }
+
+    files.set("/" + relative.split(path.sep).join("/"), {
+      ...(await representation(file)),
+      contentType: CONTENT_TYPES[extension] ?? (Bun.file(file).type || "application/octet-stream"),
+      cacheControl: HASHED.test(relative) ? CACHE_CONTROL.hashed : extension === ".html" ? CACHE_CONTROL.html : CACHE_CONTROL.other,
+      variants,
+    });
+  }
+
+  return files;
+}
+
+/** The most preferred encoding of `file` that `Accept-Encoding` allows. */
+function negotiateEncoding(file: StaticFile, header: string | null): Encoding | undefined {
+  const accepted = new Map(
+    (header ?? "").split(",").map(part => {
+      const [coding = "", ...params] = part.trim().toLowerCase().split(";");
+      const quality = params.map(param => param.trim()).find(param => param.startsWith("q="));
+      return [coding.trim(), quality ? Number(quality.slice(2)) : 1] as const;
+    }),
+  );
+  const wildcard = accepted.get("*") ?? 0;
+
+  return ENCODINGS.map(({ encoding }) => encoding).find(
+    encoding => file.variants[encoding] && (accepted.get(encoding) ?? wildcard) > 0,
+  );
+}
+
+/** Whether `If-None-Match` lists `etag` (compared weakly, as RFC 9110 requires). */
+function notModified(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header.split(",").some(tag => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Responds to a `GET` or `HEAD` request with `file`, or a precompressed
+ * variant of it, answering conditional requests with `304 Not Modified`.
+ * `headers` are added to the response, such as a page's `Vary`. Responses
+ * with another `status`, such as a 404 page, are never conditional.
+ */
+export function serveStaticFile(
+  req: Request,
+  file: StaticFile,
+  headers: Record<string, string> = {},
+  status = 200,
+): Response {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, HEAD" } });
+  }
+
+  const encoding = negotiateEncoding(file, req.headers.get("accept-encoding"));
+  const chosen = encoding ? file.variants[encoding]! : file;
+  const vary = [headers.Vary, Object.keys(file.variants).length > 0 && "Accept-Encoding"].filter(Boolean).join(", ");
+
+  const responseHeaders = new Headers({
+    ...headers,
+    "Content-Type": file.contentType,
+    "Cache-Control": file.cacheControl,
+    ETag: chosen.etag,
+    ...(vary && { Vary: vary }),
+    ...(encoding && { "Content-Encoding": encoding }),
+  });
+
+  if (status === 200 && notModified(req.headers.get("if-none-match"), chosen.etag)) {
+    responseHeaders.delete("Content-Type");
+    responseHeaders.delete("Content-Encoding");
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+
+  responseHeaders.set("Content-Length", String(chosen.size));
+  return new Response(req.method === "HEAD" ? null : Bun.file(chosen.path), { status, headers: responseHeaders });
+}
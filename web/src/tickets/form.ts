@@ -0,0 +1,103 @@
+import { isEmailAddress } from "../email-address";
+import { type Language, isLanguage } from "../i18n/i18n";
+
+/** Where the support form posts its `multipart/form-data` (see `server.ts`). */
+export const SUPPORT_ENDPOINT = "/api/support";
+
+/** Where logs are uploaded, redacted, as JSON (see `server.ts`). */
+export const LOG_ENDPOINT = "/api/support/logs";
+
+/** A field hidden from people; bots that fill it in get a made-up ticket ID. */
+export const HONEYPOT_FIELD = "website";
+
+export const ticketTopics = ["connection", "bug", "feature", "billing", "other"] as const;
+export const ticketPlatforms = ["ios", "ipados", "macos"] as const;
+/** How the user connects to the server the problem is with; `none` when it isn't about a connection. */
+export const connectionModes = ["ssh", "mosh", "tailscale", "cloudflare", "none"] as const;
+
+export type TicketTopic = (typeof ticketTopics)[number];
+export type TicketPlatform = (typeof ticketPlatforms)[number];
+export type ConnectionMode = (typeof connectionModes)[number];
+
+export const DESCRIPTION_LENGTH = { min: 20, max: 5000 };
+export const MAX_ATTACHMENTS = 3;
+export const MAX_ATTACHMENT_MB = 5;
+/** Screenshots and PDFs; logs are uploaded separately, once redacted. */
+export const ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/heic", "image/webp", "application/pdf"];
+
+export const MAX_LOG_KB = 1024;
+export const MAX_LOGS_PER_TICKET = 5;
+/** Uploaded logs are deleted this many days after upload. */
+export const LOG_RETENTION_DAYS = 30;
+
+export const TICKET_ID_PATTERN = /^VVT-[0-9A-HJKMNP-TV-Z]{8}$/;
+
+/** A validated support request, without attachments. */
+export interface TicketFields {
+  email: string;
+  topic: TicketTopic;
+  platform: TicketPlatform;
+  /** As shown in Settings → About, such as `1.2.0` or `1.2.0 (45)`. */
+  appVersion: string;
+  connection: ConnectionMode;
+  description: string;
+  /** Language of the form, which replies should be in. */
+  language: Language;
+}
+
+export type TicketField = Exclude<keyof TicketFields, "language"> | "attachments";
+
+const APP_VERSION_PATTERN = /^\d{1,4}(\.\d{1,4}){0,3}( \(\d{1,8}\))?$/;
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value);
+
+/** The form's attachments; browsers send an empty file when none is chosen. */
+export function attachedFiles(form: FormData): File[] {
+  return form.getAll("attachments").filter((value): value is File => typeof value !== "string" && value.size > 0);
+}
+
+/**
+ * Checks the support form's fields, in the browser before sending and on the
+ * server on receipt: the request, or the fields that are invalid.
+ */
+export function validateTicket(form: FormData): { ticket: TicketFields; errors?: undefined } | { errors: TicketField[] } {
+  const text = (name: string) => String(form.get(name) ?? "").trim();
+  const email = text("email");
+  const appVersion = text("appVersion");
+  const description = text("description");
+  const [topic, platform, connection, language] = ["topic", "platform", "connection", "language"].map(text);
+  const attachments = attachedFiles(form);
+
+  const errors: TicketField[] = [];
+  if (!isEmailAddress(email)) errors.push("email");
+  if (!oneOf(ticketTopics, topic)) errors.push("topic");
+  if (!oneOf(ticketPlatforms, platform)) errors.push("platform");
+  if (!APP_VERSION_PATTERN.test(appVersion)) errors.push("appVersion");
+  if (!oneOf(connectionModes, connection)) errors.push("connection");
+  if (description.length < DESCRIPTION_LENGTH.min || description.length > DESCRIPTION_LENGTH.max) {
+    errors.push("description");
+  }
+  if (
+    attachments.length > MAX_ATTACHMENTS ||
+    // Types may carry parameters, such as `text/plain;charset=utf-8`.
+    !attachments.every(
+      file => ATTACHMENT_TYPES.includes(file.type.split(";")[0]!.trim()) && file.size <= MAX_ATTACHMENT_MB * 1024 * 1024,
+    )
+  ) {
+    errors.push("attachments");
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    ticket: {
+      email,
+      topic: topic as TicketTopic,
+      platform: platform as TicketPlatform,
+      appVersion,
+      connection: connection as ConnectionMode,
+      description,
+      language: isLanguage(language) ? language : "en",
+    },
+  };
+}
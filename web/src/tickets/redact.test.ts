@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { MAX_LOG_KB } from "./form";
+import { redactLog } from "./redact";
+
+describe("redactLog", () => {
+  test("numbers each distinct value once", () => {
+    const { text } = redactLog("ssh root@10.0.0.5\nssh deploy@10.0.0.6\nping 10.0.0.5\nhost build.example.com");
+    expect(text).toBe("ssh <user-1>@<ip-1>\nssh <user-2>@<ip-2>\nping <ip-1>\nhost <host-1>");
+  });
+
+  test("redacts host names in any case", () => {
+    const { text } = redactLog("connect Example.COM\nresolve HOST.LOCAL\nretry example.com");
+    expect(text).toBe("connect <host-1>\nresolve <host-2>\nretry <host-1>");
+  });
+
+  test("keeps code identifiers, files and loopback addresses", () => {
+    const log = "MyType.member was nil in self.view\nloaded Theme.swift from config.json\nlistening on 127.0.0.1 and localhost";
+    expect(redactLog(log).text).toBe(log);
+  });
+
+  test(`redacts a log of ${MAX_LOG_KB} KB of distinct values in seconds`, () => {
+    const lines: string[] = [];
+    let size = 0;
+    for (let i = 0; size < MAX_LOG_KB * 1024; i++) {
+      const line = `connect u${i}@10.${(i >> 16) & 255}.${(i >> 8) & 255}.${i & 255} via node${i}.example.net`;
+      lines.push(line);
+      size += line.length + 1;
+    }
+
+    const started = performance.now();
+    const { counts } = redactLog(lines.join("\n"));
+    expect(performance.now() - started).toBeLessThan(5_000);
+    expect(counts.user).toBe(lines.length);
+    expect(counts.hostname).toBe(lines.length);
+  });
+});
@@ -0,0 +1,119 @@
+/** What `redactLog()` replaces, in the order it looks for them. */
+export const redactionKinds = ["privateKey", "jwt", "token", "user", "ipv6", "ipv4", "hostname"] as const;
+
+export type RedactionKind = (typeof redactionKinds)[number];
+
+export interface RedactedLog {
+  text: string;
+  /** How many times each kind of value was replaced. */
+  counts: Record<RedactionKind, number>;
+}
+
+// Dotted names that are files or bundles rather than hosts, by their last part.
+const FILE_EXTENSIONS = new Set(
+  "app appex bundle c conf cpp crash dylib framework gz h html ips js json key log m md mm pem pid plist pub py rb sh so sock swift tar toml ts txt xml yaml yml zip".split(" "),
+);
+
+// Top-level domains host names in logs end in: common generic and country
+// ones, and names of private networks. Checking for them tells hosts apart
+// from `Type.member` and `self.view` in code. Two-letter ones that are
+// common member names, such as `.id`, are left out.
+const TOP_LEVEL_DOMAINS = new Set(
+  (
+    "com net org edu gov mil int info biz name pro io dev app ai cloud tech site online page xyz top club shop blog " +
+    "me tv cc gg co us uk de fr nl be ch at se no fi dk pl cz it es pt ie eu ru ua cn jp kr tw hk sg my th vn " +
+    "au nz ca mx br ar cl za tr il ae sa ir ro hu gr sk bg hr si lt lv ee lu is " +
+    "local lan home internal intranet corp localdomain arpa test example invalid"
+  ).split(" "),
+);
+
+type Replacer = (match: string, ...groups: string[]) => string;
+
+const PRIVATE_KEY = /-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?(?:-----END \1-----|$)/g;
+// Cloudflare Access tokens (the `CF_Authorization` cookie and the
+// `cf-access-token` header) are JWTs, as are many others.
+const JWT = /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g;
+const TOKEN_PATTERNS: [RegExp, Replacer][] = [
+  // `password=…`, `"client_secret": "…"`, `MOSH_KEY=…` and the like; values
+  // already redacted, such as `cf-access-token: <jwt>`, are left alone.
+  [
+    /\b([\w-]*(?:token|secret|passw(?:or)?d|key|credentials?)["']?\s*[:=]\s*)("[^"]*"|'[^']*'|[^\s,;&<][^\s,;&]*)/gi,
+    (_, name) => `${name}<token>`,
+  ],
+  // The session key `mosh-server` prints for the client.
+  [/\b(MOSH CONNECT \d+ )[\w/+]{22}/g, (_, prefix) => `${prefix}<token>`],
+  [/\b(Bearer|Basic)\s+[\w.~+/-]+=*/gi, (_, scheme) => `${scheme} <token>`],
+  // Tailscale auth keys, GitHub, OpenAI, Slack and AWS keys.
+  [/\b(?:tskey-[\w-]+|gh[pousr]_[A-Za-z0-9]{20,}|sk-[\w-]{20,}|xox[abpr]-[\w-]+|AKIA[0-9A-Z]{16})/g, () => "<token>"],
+];
+const USER_HOST = /(?<![\w.+-])([\w.+-]+)@(\[[0-9a-fA-F:.]+\]|(?:[a-zA-Z0-9-]+\.)*[a-zA-Z0-9-]+)/g;
+const HOME_DIRECTORY = /(?<=\/(?:Users|home)\/)(?!Shared\b)[^/\s]+/g;
+const IPV6 = /(?<![\w:.<-])(?:[0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F]{0,4}(?:%[\w.]+)?(?![\w:])/g;
+const IPV4 = /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w.]*\d)/g;
+const IPV4_ADDRESS = new RegExp(`^${IPV4.source}$`);
+// Names whose last part is a top-level domain (see `TOP_LEVEL_DOMAINS`), in any case.
+const HOSTNAME = /(?<![\w.<-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}(?![\w-]|\.\w)/gi;
+
+/** Whether `value` is an IPv6 address: eight groups, or fewer with a `::`. */
+function isIpv6(value: string): boolean {
+  const address = value.split("%")[0]!;
+  const groups = address.split(":");
+  if (!/[0-9a-fA-F]/.test(address) || groups.some(group => group.length > 4)) return false;
+  return address.includes("::") ? address.indexOf("::") === address.lastIndexOf("::") : groups.length === 8;
+}
+
+// Loopback and unspecified addresses say nothing about the user and help reading logs.
+const KEPT_ADDRESSES = /^(?:127\.\d+\.\d+\.\d+|0\.0\.0\.0|::1?)$/;
+
+/**
+ * Removes what identifies a user's servers or grants access to them from a
+ * log: private keys, tokens, IP addresses, host names, and user names in
+ * `user@host` and home directory paths. Each distinct address, host and user
+ * gets its own placeholder (`<host-1>`, `<ip-2>`, `<user-1>`), so the log
+ * still shows which lines are about the same server. Used in the browser
+ * before logs are uploaded, and again on the server.
+ */
+export function redactLog(log: string): RedactedLog {
+  const counts = Object.fromEntries(redactionKinds.map(kind => [kind, 0])) as Record<RedactionKind, number>;
+  const placeholders = new Map<string, string>();
+  const numbers = new Map<string, number>();
+  const placeholder = (prefix: "host" | "ip" | "user", value: string) => {
+    const key = `${prefix}:${value.toLowerCase()}`;
+    let result = placeholders.get(key);
+    if (result === undefined) {
+      const number = (numbers.get(prefix) ?? 0) + 1;
+      numbers.set(prefix, number);
+      result = `<${prefix}-${number}>`;
+      placeholders.set(key, result);
+    }
+    return result;
+  };
+  const replace = (text: string, pattern: RegExp, kind: RedactionKind, replacer: Replacer) =>
+    text.replace(pattern, (match: string, ...groups: string[]) => {
+      const result = replacer(match, ...groups);
+      if (result !== match) counts[kind]++;
+      return result;
+    });
+  const host = (value: string) => {
+    const address = value.replace(/^\[|\]$/g, "");
+    if (IPV4_ADDRESS.test(address) || isIpv6(address)) {
+      return KEPT_ADDRESSES.test(address) ? value : placeholder("ip", address);
+    }
+    return value === "localhost" ? value : placeholder("host", value);
+  };
+
+  let text = replace(log, PRIVATE_KEY, "privateKey", () => "<private key>");
+  text = replace(text, JWT, "jwt", () => "<jwt>");
+  for (const [pattern, replacement] of TOKEN_PATTERNS) {
+    text = replace(text, pattern, "token", replacement);
+  }
+  text = replace(text, USER_HOST, "user", (_, user, hostname) => `${placeholder("user", user!)}@${host(hostname!)}`);
+  text = replace(text, HOME_DIRECTORY, "user", user => placeholder("user", user));
+  text = replace(text, IPV6, "ipv6", match => (isIpv6(match) && !KEPT_ADDRESSES.test(match) ? placeholder("ip", match) : match));
+  text = replace(text, IPV4, "ipv4", match => (KEPT_ADDRESSES.test(match) ? match : placeholder("ip", match)));
+  text = replace(text, HOSTNAME, "hostname", match => {
+    const topLevel = match.slice(match.lastIndexOf(".") + 1).toLowerCase();
+    return FILE_EXTENSIONS.has(topLevel) || !TOP_LEVEL_DOMAINS.has(topLevel) ? match : placeholder("host", match);
+  });
+  return { text, counts };
+}
@@ -0,0 +1,211 @@
+import type { BunRequest, Server } from "bun";
+import { authorized, unauthorized } from "../auth";
+import type { MailTransport } from "../mail";
+import type { RateLimiter } from "../rate-limit";
+import {
+  HONEYPOT_FIELD,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_MB,
+  MAX_LOGS_PER_TICKET,
+  MAX_LOG_KB,
+  TICKET_ID_PATTERN,
+  attachedFiles,
+  validateTicket,
+} from "./form";
+import { redactLog } from "./redact";
+import { type Ticket, type TicketStore, ticketId } from "./store";
+
+// The form's fields, with every attachment at its largest.
+const MAX_BODY_BYTES = MAX_ATTACHMENTS * MAX_ATTACHMENT_MB * 1024 * 1024 + 64 * 1024;
+// A log at its largest, with room for escaping it as JSON.
+const MAX_LOG_BODY_BYTES = 2 * MAX_LOG_KB * 1024;
+
+export interface SupportMailOptions {
+  transport: MailTransport;
+  /** Sender of forwarded tickets, such as `VVTerm <noreply@vvterm.com>`. */
+  from: string;
+  /** The support inbox tickets are forwarded to. */
+  to: string;
+  /** The site's URL, which links in the mail lead to, never taken from a request's `Host`. */
+  siteUrl: string;
+}
+
+const json = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  Response.json(body, { status, headers: { "Cache-Control": "no-store", ...headers } });
+
+/** Forwards a ticket to the support inbox, in English, with replies going to the user. */
+async function forward(ticket: Ticket, store: TicketStore, mail: SupportMailOptions) {
+  const summary = ticket.description.split("\n", 1)[0]!.slice(0, 60);
+  await mail.transport.send({
+    from: mail.from,
+    to: mail.to,
+    replyTo: ticket.email,
+    subject: `[${ticket.id}] ${ticket.topic}: ${summary}`,
+    text: [
+      `Ticket: ${ticket.id}`,
+      `Received: ${ticket.createdAt.toISOString()}`,
+      `From: ${ticket.email}`,
+      `Topic: ${ticket.topic}`,
+      `Platform: ${ticket.platform}`,
+      `App version: ${ticket.appVersion}`,
+      `Connection: ${ticket.connection}`,
+      `Language: ${ticket.language}`,
+      "",
+      ticket.description,
+      "",
+    ].join("\n"),
+    attachments: ticket.attachments,
+  });
+  store.markForwarded(ticket.id);
+}
+
+/**
+ * Forwards the tickets that weren't, such as when the mail server was down
+ * while they came in. Called when the server starts.
+ */
+export async function forwardPendingTickets(store: TicketStore, mail: SupportMailOptions) {
+  for (const ticket of store.pending()) {
+    await forward(ticket, store, mail).catch(error => console.error(`Forwarding ${ticket.id} failed:`, error));
+  }
+}
+
+/**
+ * `POST /api/support`, where the support form sends requests. A request is
+ * stored, forwarded to the support inbox in the background, and answered
+ * with its ticket ID. Invalid requests get the names of the invalid fields.
+ * Each IP address may send a few requests an hour; requests with the
+ * honeypot field filled in get a ticket ID that was never stored.
+ */
+export function supportRoute(store: TicketStore, mail: SupportMailOptions, limiter: RateLimiter) {
+  return async (req: BunRequest, server: Server<undefined>) => {
+    if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+      return json({ error: "too_large" }, 413);
+    }
+
+    const limit = limiter.take(server.requestIP(req)?.address ?? "");
+    if (!limit.allowed) {
+      return json({ error: "rate_limited" }, 429, { "Retry-After": String(limit.retryAfter) });
+    }
+
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return json({ error: "invalid" }, 400);
+    }
+
+    if (form.get(HONEYPOT_FIELD)) {
+      return json({ ticketId: ticketId() }, 201);
+    }
+
+    const result = validateTicket(form);
+    if (result.errors) {
+      return json({ error: "invalid", fields: result.errors }, 400);
+    }
+
+    const attachments = await Promise.all(
+      attachedFiles(form).map(async file => ({
+        filename: file.name || "attachment",
+        contentType: file.type,
+        content: new Uint8Array(await file.arrayBuffer()),
+      })),
+    );
+    const ticket = store.create(result.ticket, attachments);
+
+    forward(ticket, store, mail).catch(error => console.error(`Forwarding ${ticket.id} failed:`, error));
+    return json({ ticketId: ticket.id }, 201);
+  };
+}
+
+/**
+ * `POST /api/support/logs`, where the support page uploads a log for a
+ * ticket, as `{ ticketId, filename, content }`. The browser redacts logs
+ * before showing them for upload; they are redacted again here, in case
+ * they come from elsewhere. Logs are kept for `LOG_RETENTION_DAYS`, and
+ * support is emailed a link to read them rather than the log itself.
+ */
+export function logUploadRoute(store: TicketStore, mail: SupportMailOptions, limiter: RateLimiter) {
+  return async (req: BunRequest, server: Server<undefined>) => {
+    if (Number(req.headers.get("content-length")) > MAX_LOG_BODY_BYTES) {
+      return json({ error: "too_large" }, 413);
+    }
+
+    const limit = limiter.take(server.requestIP(req)?.address ?? "");
+    if (!limit.allowed) {
+      return json({ error: "rate_limited" }, 429, { "Retry-After": String(limit.retryAfter) });
+    }
+
+    const text = await req.text();
+    if (text.length > MAX_LOG_BODY_BYTES) {
+      return json({ error: "too_large" }, 413);
+    }
+    let body: { ticketId?: unknown; filename?: unknown; content?: unknown } | null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return json({ error: "invalid" }, 400);
+    }
+    const { ticketId: ticket, filename, content } = body ?? {};
+    if (typeof ticket !== "string" || typeof content !== "string" || !content.trim()) {
+      return json({ error: "invalid" }, 400);
+    }
+    if (Buffer.byteLength(content) > MAX_LOG_KB * 1024) {
+      return json({ error: "too_large" }, 413);
+    }
+    const id = ticket.trim().toUpperCase();
+    if (!TICKET_ID_PATTERN.test(id) || !store.exists(id)) {
+      return json({ error: "unknown_ticket" }, 404);
+    }
+    if (store.logCount(id) >= MAX_LOGS_PER_TICKET) {
+      return json({ error: "too_many" }, 409);
+    }
+
+    const name = typeof filename === "string" && filename.trim() ? filename.trim().slice(0, 100) : "log.txt";
+    const log = store.addLog(id, name, redactLog(content).text);
+
+    const link = new URL(`/admin/support/logs/${log.id}`, mail.siteUrl);
+    mail.transport
+      .send({
+        from: mail.from,
+        to: mail.to,
+        subject: `[${id}] Log uploaded`,
+        text: [
+          `A redacted log (${name}, ${Math.ceil(Buffer.byteLength(log.content) / 1024)} KB) was uploaded for ${id}.`,
+          "",
+          `Read it until ${log.expiresAt.toISOString().slice(0, 10)} at ${link}`,
+          "",
+        ].join("\n"),
+      })
+      .catch(error => console.error(`Notifying support of a log for ${id} failed:`, error));
+    return json({ logId: log.id, expiresAt: log.expiresAt.toISOString() }, 201);
+  };
+}
+
+/**
+ * `GET /admin/support/logs/:id`, an uploaded log as plain text, behind HTTP
+ * Basic authentication. Without a password configured, or once the log has
+ * expired, it doesn't exist.
+ */
+export function logRoute(store: TicketStore, password: string | undefined) {
+  return (req: BunRequest<"/admin/support/logs/:id">) => {
+    if (!password) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (!authorized(req, password)) {
+      return unauthorized("VVTerm support");
+    }
+
+    const log = store.log(req.params.id);
+    if (!log) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return new Response(log.content, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `inline; filename="${log.filename.replace(/["\\\r\n]/g, "_")}"`,
+        "Cache-Control": "no-store",
+        "X-Robots-Tag": "noindex",
+      },
+    });
+  };
+}
@@ -0,0 +1,180 @@
+import { Database } from "bun:sqlite";
+import { randomInt, randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import path from "path";
+import type { MailAttachment } from "../mail";
+import { type TicketFields, LOG_RETENTION_DAYS } from "./form";
+
+// Crockford's base32: no I, L, O or U, so IDs read back over the phone.
+const ID_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** A stored support request. */
+export interface Ticket extends TicketFields {
+  /** Shown to the user and put in the subject of the forwarded email, such as `VVT-7K2M9QXD`. */
+  id: string;
+  createdAt: Date;
+  attachments: MailAttachment[];
+}
+
+/** A redacted log uploaded for a ticket. */
+export interface TicketLog {
+  id: string;
+  ticketId: string;
+  filename: string;
+  content: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface TicketStore {
+  /** Stores a request, returning its new ID. */
+  create(fields: TicketFields, attachments: MailAttachment[]): Ticket;
+  exists(id: string): boolean;
+  /** Records that the ticket was sent to the support address. */
+  markForwarded(id: string): void;
+  /** Tickets not yet forwarded, oldest first, such as those whose email failed. */
+  pending(): Ticket[];
+  /** Stores a log for a ticket until it expires, `LOG_RETENTION_DAYS` from now. */
+  addLog(ticketId: string, filename: string, content: string): TicketLog;
+  /** How many unexpired logs a ticket has. */
+  logCount(ticketId: string): number;
+  /** A log, unless it doesn't exist or has expired. */
+  log(id: string): TicketLog | undefined;
+}
+
+/** A random ticket ID, such as `VVT-7K2M9QXD`. */
+export function ticketId(): string {
+  return `VVT-${Array.from({ length: 8 }, () => ID_ALPHABET[randomInt(ID_ALPHABET.length)]).join("")}`;
+}
+
+interface TicketRow {
+  id: string;
+  created_at: number;
+  email: string;
+  topic: string;
+  platform: string;
+  app_version: string;
+  connection: string;
+  description: string;
+  language: string;
+}
+
+/**
+ * Opens (creating if needed) the SQLite database of support tickets. Tickets
+ * are kept with their attachments whether or not forwarding them by email
+ * works, so none is lost to a mail server being down.
+ */
+export function openTicketStore(filename: string): TicketStore {
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true, strict: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tickets (
+      id TEXT PRIMARY KEY, created_at INTEGER NOT NULL, email TEXT NOT NULL, topic TEXT NOT NULL,
+      platform TEXT NOT NULL, app_version TEXT NOT NULL, connection TEXT NOT NULL, description TEXT NOT NULL,
+      language TEXT NOT NULL, forwarded_at INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS attachments (
+      ticket_id TEXT NOT NULL REFERENCES tickets (id), filename TEXT NOT NULL, content_type TEXT NOT NULL,
+      content BLOB NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS attachments_ticket ON attachments (ticket_id);
+    CREATE TABLE IF NOT EXISTS logs (
+      id TEXT PRIMARY KEY, ticket_id TEXT NOT NULL REFERENCES tickets (id), filename TEXT NOT NULL,
+      content TEXT NOT NULL, created_at INTEGER NOT NULL, expires_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS logs_ticket ON logs (ticket_id);
+  `);
+
+  const exists = db.query<{ id: string }, { id: string }>("SELECT id FROM tickets WHERE id = $id");
+  const insertTicket = db.query(
+    `INSERT INTO tickets (id, created_at, email, topic, platform, app_version, connection, description, language)
+     VALUES ($id, $createdAt, $email, $topic, $platform, $appVersion, $connection, $description, $language)`,
+  );
+  const insertAttachment = db.query(
+    `INSERT INTO attachments (ticket_id, filename, content_type, content)
+     VALUES ($ticketId, $filename, $contentType, $content)`,
+  );
+  const forwarded = db.query("UPDATE tickets SET forwarded_at = $now WHERE id = $id");
+  const unforwarded = db.query<TicketRow, []>("SELECT * FROM tickets WHERE forwarded_at IS NULL ORDER BY created_at");
+  const attachmentsOf = db.query<{ filename: string; content_type: string; content: Uint8Array }, { id: string }>(
+    "SELECT filename, content_type, content FROM attachments WHERE ticket_id = $id ORDER BY rowid",
+  );
+
+  const insertLog = db.query(
+    `INSERT INTO logs (id, ticket_id, filename, content, created_at, expires_at)
+     VALUES ($id, $ticketId, $filename, $content, $createdAt, $expiresAt)`,
+  );
+  const countLogs = db.query<{ count: number }, { ticketId: string; now: number }>(
+    "SELECT count(*) AS count FROM logs WHERE ticket_id = $ticketId AND expires_at > $now",
+  );
+  const selectLog = db.query<
+    { id: string; ticket_id: string; filename: string; content: string; created_at: number; expires_at: number },
+    { id: string; now: number }
+  >("SELECT * FROM logs WHERE id = $id AND expires_at > $now");
+  const deleteExpiredLogs = db.query("DELETE FROM logs WHERE expires_at <= $now");
+
+  const create = db.transaction((fields: TicketFields, attachments: MailAttachment[]): Ticket => {
+    let id = ticketId();
+    while (exists.get({ id })) id = ticketId();
+    const createdAt = new Date();
+
+    insertTicket.run({ id, createdAt: createdAt.getTime(), ...fields });
+    for (const attachment of attachments) {
+      insertAttachment.run({ ticketId: id, ...attachment });
+    }
+    return { id, createdAt, ...fields, attachments };
+  });
+
+  return {
+    create,
+    exists(id) {
+      return exists.get({ id }) !== null;
+    },
+    markForwarded(id) {
+      forwarded.run({ id, now: Date.now() });
+    },
+    pending() {
+      return unforwarded.all().map(row => ({
+        id: row.id,
+        createdAt: new Date(row.created_at),
+        email: row.email,
+        topic: row.topic as Ticket["topic"],
+        platform: row.platform as Ticket["platform"],
+        appVersion: row.app_version,
+        connection: row.connection as Ticket["connection"],
+        description: row.description,
+        language: row.language as Ticket["language"],
+        attachments: attachmentsOf.all({ id: row.id }).map(({ filename, content_type, content }) => ({
+          filename,
+          contentType: content_type,
+          content,
+        })),
+      }));
+    },
+    addLog(ticketId, filename, content) {
+      // Expired logs are deleted as new ones come in.
+      deleteExpiredLogs.run({ now: Date.now() });
+      const createdAt = new Date();
+      const expiresAt = new Date(createdAt.getTime() + LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const log = { id: randomUUID(), ticketId, filename, content, createdAt, expiresAt };
+      insertLog.run({ ...log, createdAt: createdAt.getTime(), expiresAt: expiresAt.getTime() });
+      return log;
+    },
+    logCount(ticketId) {
+      return countLogs.get({ ticketId, now: Date.now() })!.count;
+    },
+    log(id) {
+      const row = selectLog.get({ id, now: Date.now() });
+      if (!row) return undefined;
+      return {
+        id: row.id,
+        ticketId: row.ticket_id,
+        filename: row.filename,
+        content: row.content,
+        createdAt: new Date(row.created_at),
+        expiresAt: new Date(row.expires_at),
+      };
+    },
+  };
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env bun
+import { mkdir } from "fs/promises";
+import path from "path";
+import { defaultLanguage, isLanguage } from "./src/i18n/i18n";
+import { parsePo, toPo } from "./src/i18n/po";
+import { type SourceRecord, exportUnits, importUnits, recordSources } from "./src/i18n/units";
+import { parseXliff, toXliff } from "./src/i18n/xliff";
+
+const usage = `
+Translation catalog exchange
+
+Usage:
+  bun run translations.ts export <lang> [--format xliff|po] [--out <file>]
+  bun run translations.ts import <file> [--lang <lang>]
+  bun run translations.ts sync <lang>
+
+Commands:
+  export   Write a locale as XLIFF 2.0 (default) or PO, to out/translations/<lang>.xlf|.po
+           by default. Strings whose English source changed since they were
+           translated are marked for review.
+  import   Merge a translated XLIFF or PO file back into src/i18n/translations/<lang>.json.
+           The language comes from the file unless --lang is given.
+  sync     Record the current English text as the source of every translation in
+           <lang>.json, after both catalogs were updated by hand.
+`;
+
+const translationsDir = path.join(import.meta.dir, "src/i18n/translations");
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function checkLanguage(lang: string | undefined): string {
+  if (!lang || !/^[a-z]{2,3}(-[A-Za-z0-9]+)*$/.test(lang)) fail(`Invalid language "${lang ?? ""}"${usage}`);
+  if (lang === defaultLanguage) fail(`${defaultLanguage}.json is the source catalog; edit it directly.`);
+  return lang;
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  const handle = Bun.file(file);
+  return (await handle.exists()) ? ((await handle.json()) as T) : fallback;
+}
+
+const writeJson = (file: string, value: unknown) => Bun.write(file, JSON.stringify(value, null, 2) + "\n");
+
+const catalogFile = (lang: string) => path.join(translationsDir, `${lang}.json`);
+const sourcesFile = (lang: string) => path.join(translationsDir, `${lang}.sources.json`);
+
+const [command, argument] = process.argv.slice(2);
+const reference = await readJson<unknown>(catalogFile(defaultLanguage), {});
+
+switch (command) {
+  case "export": {
+    const lang = checkLanguage(argument);
+    const format = option("format") ?? "xliff";
+    if (format !== "xliff" && format !== "po") fail(`Unknown format "${format}"; use xliff or po.`);
+
+    const units = exportUnits(
+      reference,
+      await readJson<unknown>(catalogFile(lang), {}),
+      await readJson<SourceRecord>(sourcesFile(lang), {}),
+    );
+    const out = option("out") ?? path.join("out/translations", `${lang}.${format === "po" ? "po" : "xlf"}`);
+    await mkdir(path.dirname(out), { recursive: true });
+    await Bun.write(out, format === "po" ? toPo(units, defaultLanguage, lang) : toXliff(units, defaultLanguage, lang));
+
+    const missing = units.filter(unit => unit.target === undefined).length;
+    const changed = units.filter(unit => unit.previousSource !== undefined).length;
+    console.log(`Exported ${units.length} strings to ${out} (${missing} untranslated, ${changed} with a changed source)`);
+    break;
+  }
+
+  case "import": {
+    if (!argument) fail(usage);
+    const text = await Bun.file(argument).text();
+    const { targetLanguage, units } = /\.po$/i.test(argument) ? parsePo(text) : parseXliff(text);
+    const lang = checkLanguage(option("lang") ?? targetLanguage);
+
+    const result = importUnits(
+      reference,
+      await readJson<unknown>(catalogFile(lang), {}),
+      await readJson<SourceRecord>(sourcesFile(lang), {}),
+      units,
+    );
+    await writeJson(catalogFile(lang), result.catalog);
+    await writeJson(sourcesFile(lang), result.sources);
+
+    console.log(`Imported ${result.translated} translated and ${result.fuzzy} draft strings into ${lang}.json`);
+    if (result.unknown.length > 0) {
+      console.warn(`Skipped ${result.unknown.length} strings that en.json doesn't have:\n  ${result.unknown.join("\n  ")}`);
+    }
+    if (result.untranslated.length > 0) {
+      console.warn(`${result.untranslated.length} strings are still untranslated and fall back to English.`);
+    }
+    if (!isLanguage(lang)) {
+      console.warn(`Add "${lang}" to the catalog loaders in src/i18n/i18n.ts to serve it.`);
+    }
+    break;
+  }
+
+  case "sync": {
+    const lang = checkLanguage(argument);
+    const sources = recordSources(reference, await readJson<unknown>(catalogFile(lang), {}));
+    await writeJson(sourcesFile(lang), sources);
+    console.log(`Recorded the English source of ${Object.keys(sources).length} strings in ${lang}.sources.json`);
+    break;
+  }
+
+  default:
+    console.log(usage);
+    process.exit(command === "--help" || command === "-h" || command === undefined ? 0 : 1);
+}